@@ -1,8 +1,9 @@
-declare module './scenes/mainScene' {
-  export class MainScene {
-    constructor(canvas: HTMLCanvasElement);
+declare module './scenes/titleScene' {
+  export class TitleScene {
+    constructor(context: import('./core/scene').SceneContext);
+    readonly name: string;
     update(dt: number): void;
-    render(ctx: CanvasRenderingContext2D): void;
+    render(ctx: CanvasRenderingContext2D, alpha?: number): void;
   }
 }
 
@@ -17,6 +18,7 @@ declare module './core/audio' {
 declare module './ui/joystick' {
   export class VirtualJoystick {
     constructor(el: HTMLElement);
+    getAxis(): { x: number; y: number };
   }
   export class ActionButton {
     constructor(el: HTMLElement);
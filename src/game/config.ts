@@ -30,12 +30,23 @@ export interface GameConfig {
   };
   physics: {
     friction: number;
+    damping: number;
     maxVelocity: number;
+    cellSize: number;
+  };
+  collision: {
+    layers: string[]; // named collision layers, at most 32
+    matrix: Record<string, string[]>; // layers each layer collides with, unless a collider sets its own mask
+  };
+  loop: {
+    tickRate: number;
+    maxStepsPerFrame: number;
   };
   ui: {
     joystickSize: number;
     buttonSize: number;
     fontSize: number;
+    transitionDuration: number;
   };
   assets: {
     placeholderSize: number;
@@ -46,11 +57,20 @@ export interface GameConfig {
     showFPS: boolean;
     showColliders: boolean;
     enableInspector: boolean;
+    profiler: boolean; // per-phase timings; F3 toggles the overlay
+    profilerHistory: number; // frames kept for the graph and trace
+    showCollisionMatrix: boolean; // which layers collide; F4 toggles
+  };
+  pool: {
+    warmup: Record<string, number>; // entities pre-created per prefab when a run starts
   };
   room: {
     enemiesPerRoom: number;
     totalRooms: number;
   };
+  random: {
+    seed: number | null;
+  };
 }
 
 export const config: GameConfig = {
@@ -79,13 +99,32 @@ export const config: GameConfig = {
     spawnInterval: 5000, // ms
   },
   physics: {
-    friction: 0.8,
+    friction: 0.2, // default surface friction between bodies
+    damping: 13.39, // default drag per second; keeps 80% of velocity per 60 Hz tick
     maxVelocity: 500,
+    cellSize: 64, // broadphase grid cell size; around the size of a typical collider
+  },
+  collision: {
+    layers: ['default', 'player', 'enemy', 'pickup', 'projectile', 'wall'],
+    // two colliders interact only when each lists the other's layer
+    matrix: {
+      default: ['default', 'player', 'enemy', 'pickup', 'projectile', 'wall'],
+      player: ['default', 'enemy', 'pickup', 'wall'],
+      enemy: ['default', 'player', 'projectile', 'wall'],
+      pickup: ['default', 'player'],
+      projectile: ['default', 'enemy', 'wall'],
+      wall: ['default', 'player', 'enemy', 'projectile'],
+    },
+  },
+  loop: {
+    tickRate: 60, // simulation ticks per second
+    maxStepsPerFrame: 5, // catch-up cap to avoid the spiral of death
   },
   ui: {
     joystickSize: 80,
     buttonSize: 60,
     fontSize: 16,
+    transitionDuration: 400, // ms
   },
   assets: {
     placeholderSize: 32,
@@ -96,11 +135,23 @@ export const config: GameConfig = {
     showFPS: false,
     showColliders: false,
     enableInspector: true,
+    profiler: false,
+    profilerHistory: 240,
+    showCollisionMatrix: false,
+  },
+  pool: {
+    warmup: {
+      flame: 8,
+      pickup: 4,
+    },
   },
   room: {
     enemiesPerRoom: 3,
     totalRooms: 5,
   },
+  random: {
+    seed: null, // fixed run seed; null picks a new one each run (?seed= in the URL wins)
+  },
 };
 
 /**
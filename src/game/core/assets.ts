@@ -1,7 +1,11 @@
 type SpriteMap = { [key: string]: HTMLImageElement };
+type SpriteListener = (name: string, image: HTMLImageElement) => void;
 
 const sprites: SpriteMap = {};
 const sequences: { [key: string]: HTMLImageElement[] } = {};
+// names whose file failed to load: loadSprite returns a placeholder for them, getSprite doesn't
+const placeholders: Set<string> = new Set();
+const loadedListeners: Set<SpriteListener> = new Set();
 
 export async function loadSprite(name: string, path: string) {
     if (sprites[name]) return sprites[name];
@@ -14,6 +18,7 @@ export async function loadSprite(name: string, path: string) {
             img.onerror = () => rej(new Error('Load failed'));
         });
         sprites[name] = img;
+        loadedListeners.forEach(listener => listener(name, img));
         return img;
     } catch (e) {
         // create placeholder canvas image
@@ -28,6 +33,7 @@ export async function loadSprite(name: string, path: string) {
         const img = new Image();
         img.src = cvs.toDataURL();
         sprites[name] = img;
+        placeholders.add(name);
         return img;
     }
 }
@@ -48,8 +54,20 @@ export async function loadDefaultSprites(): Promise<void> {
     }
 }
 
+/**
+ * A sprite that loaded, or undefined if it hasn't (yet) or its file is missing,
+ * so callers draw their own fallback such as a sprite's color
+ */
 export function getSprite(name: string): HTMLImageElement | undefined {
-    return sprites[name];
+    return placeholders.has(name) ? undefined : sprites[name];
+}
+
+/**
+ * Call a listener each time a sprite file finishes loading. Returns a function that removes it.
+ */
+export function onSpriteLoaded(listener: SpriteListener): () => void {
+    loadedListeners.add(listener);
+    return () => loadedListeners.delete(listener);
 }
 
 export function getAllSprites(): SpriteMap {
@@ -3,12 +3,28 @@
  * Handles audio loading and playback with advanced Web Audio API features
  */
 
+import { EventBus } from './events';
+
 export interface AudioConfig {
   volume: number;
   enabled: boolean;
 }
 
-class AudioManager {
+/**
+ * Music controls scenes depend on, so they can run against silent audio
+ */
+export interface AudioAdapter {
+  loadBackgroundMusic(file: File): Promise<number>;
+  playBackgroundMusic(): void;
+  stopBackgroundMusic(): void;
+  pauseBackgroundMusic(): void;
+  resumeBackgroundMusic(position?: number): void;
+  updateMusicQuality(healthPercent: number): void;
+  suspend(): void;
+  resume(): void;
+}
+
+class AudioManager implements AudioAdapter {
   private sounds: Map<string, HTMLAudioElement> = new Map();
   private config: AudioConfig = {
     volume: 0.5,
@@ -25,6 +41,7 @@ class AudioManager {
   private gainReduction: GainNode | null = null;
   private currentMusicDuration: number = 0;
   private musicStartTime: number = 0;
+  private musicPausedAt: number = 0; // performance.now() when paused, 0 while playing
 
   /**
    * Load an audio file
@@ -152,6 +169,7 @@ class AudioManager {
     if (!this.config.enabled || !this.bgMusic) return;
     
     this.musicStartTime = performance.now();
+    this.musicPausedAt = 0;
     this.bgMusic.play().catch(() => {
       // Ignore autoplay errors
     });
@@ -177,6 +195,64 @@ class AudioManager {
       this.bgMusic = null;
       this.sourceNode = null;
     }
+    this.musicPausedAt = 0;
+  }
+  
+  /**
+   * Pause background music, keeping its position
+   */
+  pauseBackgroundMusic(): void {
+    if (!this.bgMusic || this.musicPausedAt !== 0) return;
+    
+    this.musicPausedAt = performance.now();
+    this.bgMusic.pause();
+  }
+  
+  /**
+   * Resume paused background music, optionally from a position in seconds
+   * (e.g. the game timer) so music and gameplay stay in step
+   */
+  resumeBackgroundMusic(position?: number): void {
+    if (!this.bgMusic || this.musicPausedAt === 0) return;
+    
+    const now = performance.now();
+    if (position !== undefined) {
+      if (this.currentMusicDuration > 0) {
+        this.bgMusic.currentTime = position % this.currentMusicDuration;
+      }
+      this.musicStartTime = now - position * 1000;
+    } else if (this.musicStartTime !== 0) {
+      // paused time doesn't count towards elapsed time
+      this.musicStartTime += now - this.musicPausedAt;
+    }
+    this.musicPausedAt = 0;
+    
+    if (!this.config.enabled) return;
+    this.bgMusic.play().catch(() => {
+      // Ignore autoplay errors
+    });
+  }
+  
+  /**
+   * Silence everything while the page is hidden; music resumes via resumeBackgroundMusic
+   */
+  suspend(): void {
+    this.pauseBackgroundMusic();
+    for (const sound of this.sounds.values()) {
+      sound.pause();
+    }
+    this.audioContext?.suspend().catch(() => {
+      // Context already closed
+    });
+  }
+  
+  /**
+   * Restart the audio context after suspend()
+   */
+  resume(): void {
+    this.audioContext?.resume().catch(() => {
+      // Needs a user gesture; the next click retries
+    });
   }
   
   /**
@@ -209,7 +285,8 @@ class AudioManager {
    */
   getElapsedTime(): number {
     if (this.musicStartTime === 0) return 0;
-    return (performance.now() - this.musicStartTime) / 1000;
+    const now = this.musicPausedAt !== 0 ? this.musicPausedAt : performance.now();
+    return (now - this.musicStartTime) / 1000;
   }
   
   /**
@@ -223,6 +300,32 @@ class AudioManager {
 // Singleton instance
 const audioManager = new AudioManager();
 
+/**
+ * Play sound effects in response to gameplay events; returns an unsubscribe function
+ */
+export function bindAudioEvents(events: EventBus): () => void {
+  const unsubscribers = [
+    events.on('entity:damaged', () => audioManager.play('hit')),
+    events.on('pickup:collected', () => audioManager.play('pickup')),
+    events.on('entity:died', () => audioManager.play('death')),
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
+
+/**
+ * No-op audio for headless runs and tests
+ */
+export const silentAudio: AudioAdapter = {
+  loadBackgroundMusic: async () => 0,
+  playBackgroundMusic: () => {},
+  stopBackgroundMusic: () => {},
+  pauseBackgroundMusic: () => {},
+  resumeBackgroundMusic: () => {},
+  updateMusicQuality: () => {},
+  suspend: () => {},
+  resume: () => {},
+};
+
 /**
  * Load default audio files
  */
@@ -0,0 +1,106 @@
+/**
+ * Command Buffer
+ * Structural entity changes queued during a frame and applied at a sync point,
+ * so systems never see entities half added or half destroyed
+ */
+
+import { Entity, EntityManager, Component } from './entity';
+import type { EntityPool } from './pool';
+
+export type Command =
+  | { kind: 'spawn'; entity: Entity }
+  | { kind: 'remove'; entity: Entity }
+  | { kind: 'release'; entity: Entity; pool: EntityPool }
+  | { kind: 'addComponent'; entity: Entity; component: Component }
+  | { kind: 'removeComponent'; entity: Entity; type: string };
+
+export class CommandBuffer {
+  private entities: EntityManager;
+  private commands: Command[] = [];
+
+  constructor(entities: EntityManager) {
+    this.entities = entities;
+  }
+
+  /**
+   * Add an entity to the manager at the next sync point
+   */
+  spawn(entity: Entity): Entity {
+    this.commands.push({ kind: 'spawn', entity });
+    return entity;
+  }
+
+  /**
+   * Remove and destroy an entity (and its descendants) at the next sync point
+   */
+  remove(entity: Entity): void {
+    this.commands.push({ kind: 'remove', entity });
+  }
+
+  /**
+   * Return an entity to its pool at the next sync point
+   */
+  release(entity: Entity, pool: EntityPool): void {
+    this.commands.push({ kind: 'release', entity, pool });
+  }
+
+  addComponent(entity: Entity, component: Component): void {
+    this.commands.push({ kind: 'addComponent', entity, component });
+  }
+
+  removeComponent(entity: Entity, type: string): void {
+    this.commands.push({ kind: 'removeComponent', entity, type });
+  }
+
+  /**
+   * Number of commands waiting for the next apply()
+   */
+  get size(): number {
+    return this.commands.length;
+  }
+
+  /**
+   * Apply queued commands in the order they were queued. Commands queued while
+   * applying wait for the next apply().
+   */
+  apply(): void {
+    if (this.commands.length === 0) return;
+
+    const commands = this.commands;
+    this.commands = [];
+    for (const command of commands) {
+      this.run(command);
+    }
+  }
+
+  /**
+   * Drop queued commands without applying them
+   */
+  clear(): void {
+    this.commands = [];
+  }
+
+  private run(command: Command): void {
+    const { entity } = command;
+    switch (command.kind) {
+      case 'spawn':
+        this.entities.add(entity);
+        break;
+      case 'remove':
+        // already gone, e.g. removed twice or with its parent
+        if (this.entities.get(entity.id) === entity) {
+          this.entities.remove(entity.id);
+        }
+        break;
+      case 'release':
+        command.pool.release(entity);
+        break;
+      case 'addComponent':
+        entity.addComponent(command.component);
+        break;
+      case 'removeComponent':
+        entity.removeComponent(command.type);
+        break;
+    }
+  }
+}
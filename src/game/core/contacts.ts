@@ -0,0 +1,122 @@
+/**
+ * Contact Tracking
+ * Remembers which pairs touch from one step to the next, so contacts can be
+ * told apart as starting, continuing or ending
+ */
+
+export type ContactPair<T> = [T, T];
+
+export class ContactTracker<T> {
+  // every pair, under both of its items
+  private index: Map<T, Map<T, ContactPair<T>>> = new Map();
+  // every pair once, in the order contact started
+  private pairs: Set<ContactPair<T>> = new Set();
+  private touched: Set<ContactPair<T>> = new Set();
+  // pairs dropped by forget(), not yet reported
+  private forgotten: Array<ContactPair<T>> = [];
+
+  get size(): number {
+    return this.pairs.size;
+  }
+
+  /**
+   * Record that two items touch this step; true when they didn't touch last step
+   */
+  touch(a: T, b: T): boolean {
+    const existing = this.index.get(a)?.get(b);
+    if (existing) {
+      this.touched.add(existing);
+      return false;
+    }
+
+    const pair: ContactPair<T> = [a, b];
+    this.link(a, b, pair);
+    this.link(b, a, pair);
+    this.pairs.add(pair);
+    this.touched.add(pair);
+    return true;
+  }
+
+  isTouching(a: T, b: T): boolean {
+    return this.index.get(a)?.has(b) ?? false;
+  }
+
+  /**
+   * Items an item is in contact with
+   */
+  getContacts(item: T): T[] {
+    return Array.from(this.index.get(item)?.keys() ?? []);
+  }
+
+  /**
+   * Pairs in contact last step that haven't been touched yet this step
+   */
+  untouched(): Array<ContactPair<T>> {
+    return Array.from(this.pairs).filter(pair => !this.touched.has(pair));
+  }
+
+  /**
+   * Drop an item's contacts, e.g. when it leaves the world; they are reported
+   * as ended by takeForgotten(), or else the next step()
+   */
+  forget(item: T): void {
+    for (const pair of Array.from(this.index.get(item)?.values() ?? [])) {
+      this.unlink(pair);
+      this.forgotten.push(pair);
+    }
+  }
+
+  /**
+   * Pairs forgotten since they were last reported. Take them before touching
+   * anything in a step, so an item that left and came back within the step
+   * ends its old contact before starting a new one.
+   */
+  takeForgotten(): Array<ContactPair<T>> {
+    const forgotten = this.forgotten;
+    this.forgotten = [];
+    return forgotten;
+  }
+
+  /**
+   * Finish a step: pairs that weren't touched end. Returns every pair that
+   * ended since the last step, forgotten ones first.
+   */
+  step(): Array<ContactPair<T>> {
+    const ended = this.takeForgotten();
+    for (const pair of Array.from(this.pairs)) {
+      if (!this.touched.has(pair)) {
+        this.unlink(pair);
+        ended.push(pair);
+      }
+    }
+    this.touched.clear();
+    return ended;
+  }
+
+  clear(): void {
+    this.index.clear();
+    this.pairs.clear();
+    this.touched.clear();
+    this.forgotten = [];
+  }
+
+  private link(from: T, to: T, pair: ContactPair<T>): void {
+    let contacts = this.index.get(from);
+    if (!contacts) {
+      contacts = new Map();
+      this.index.set(from, contacts);
+    }
+    contacts.set(to, pair);
+  }
+
+  private unlink(pair: ContactPair<T>): void {
+    const [a, b] = pair;
+    for (const [from, to] of [[a, b], [b, a]]) {
+      const contacts = this.index.get(from);
+      contacts?.delete(to);
+      if (contacts?.size === 0) this.index.delete(from);
+    }
+    this.pairs.delete(pair);
+    this.touched.delete(pair);
+  }
+}
@@ -3,7 +3,13 @@
  * Simple entity-component architecture for game objects
  */
 
-import { config } from '../config';
+import rng from './random';
+import profiler from './profiler';
+import prefabs, { PrefabOverrides } from './prefabs';
+import { getWorldTransform, toLocalTransform } from './transform';
+import { EventBus } from './events';
+import { getSprite } from './assets';
+import { findShapeProblems } from './shapes';
 
 export interface Vector2 {
   x: number;
@@ -14,37 +20,66 @@ export interface Component {
   type: string;
   update?(dt: number): void;
   render?(ctx: CanvasRenderingContext2D): void;
+  onAdd?(entity: Entity): void; // after the component is added to an entity
+  onRemove?(entity: Entity): void; // after it is removed, replaced or the entity destroyed
 }
 
+/**
+ * Position, rotation and scale relative to the parent entity (or the world when
+ * there is none); see core/transform for world-space values
+ */
 export interface TransformComponent extends Component {
   type: 'transform';
   position: Vector2;
   rotation: number;
   scale: Vector2;
+  previousPosition?: Vector2; // position at the start of the last simulation tick
+  parent?: string; // parent entity id; set through EntityManager.setParent
 }
 
 export interface PhysicsComponent extends Component {
   type: 'physics';
   velocity: Vector2;
   acceleration: Vector2;
-  mass: number;
-  friction: number;
+  mass: number; // ignored for static bodies
+  friction: number; // surface friction against other bodies: 0 slides freely, 1 grips
+  damping: number; // drag per second; velocity decays by e^(-damping * seconds)
+  restitution?: number; // bounciness: 0 (default) stops dead, 1 bounces back at full speed
+  isStatic?: boolean; // infinite mass: collisions never push it
+  bullet?: boolean; // fast mover: swept against walls and colliders so it can't tunnel through them
 }
 
 export interface SpriteComponent extends Component {
   type: 'sprite';
   image?: HTMLImageElement;
+  spriteName?: string; // asset name of image (see core/assets); binds it on creation and after loading a snapshot
   width: number;
   height: number;
   color: string;
 }
 
+/**
+ * Collider geometry in the entity's local space (origin at its top-left, like
+ * the sprite); rotation and scale come from the transform. See core/shapes.
+ */
+export type ColliderShape =
+  | { kind: 'box' } // width x height, the default
+  | { kind: 'circle'; radius?: number; center?: Vector2 } // defaults fit inside the box
+  | { kind: 'polygon'; points: Vector2[] } // convex, in either winding order
+  | { kind: 'capsule'; radius?: number; a?: Vector2; b?: Vector2 }; // defaults run along the box's long side
+
 export interface ColliderComponent extends Component {
   type: 'collider';
   width: number;
   height: number;
   isTrigger: boolean;
-  onCollision?(other: Entity): void;
+  shape?: ColliderShape;
+  layer?: string; // collision layer from config.collision.layers (default 'default')
+  mask?: string[]; // layers this collider hits; defaults to its layer's row of config.collision.matrix
+  onCollision?(other: Entity): void; // every step the two overlap
+  onCollisionEnter?(other: Entity): void; // the step contact starts
+  onCollisionStay?(other: Entity): void; // each later step it continues
+  onCollisionExit?(other: Entity): void; // the step after it ends, or one leaves the world
 }
 
 export interface HealthComponent extends Component {
@@ -54,6 +89,41 @@ export interface HealthComponent extends Component {
   onDeath?(): void;
 }
 
+/**
+ * What an entity is, for gameplay logic (e.g. 'enemy', 'pickup').
+ * Change tags through Entity.addTag/removeTag so EntityManager's index stays current.
+ */
+export interface TagsComponent extends Component {
+  type: 'tags';
+  tags: string[];
+}
+
+/**
+ * Component interfaces by type key, so getComponent('physics') is typed.
+ * Register your own components with declaration merging:
+ *
+ *   declare module './core/entity' {
+ *     interface ComponentTypes { ai: AIComponent }
+ *   }
+ */
+export interface ComponentTypes {
+  transform: TransformComponent;
+  physics: PhysicsComponent;
+  sprite: SpriteComponent;
+  collider: ColliderComponent;
+  health: HealthComponent;
+  tags: TagsComponent;
+}
+
+export type ComponentType = keyof ComponentTypes;
+
+/**
+ * Component interfaces for a list of type keys, e.g. ['transform', 'physics']
+ */
+export type ComponentTuple<K extends ComponentType[]> = {
+  [I in keyof K]: K[I] extends ComponentType ? ComponentTypes[K[I]] : never;
+};
+
 /**
  * Base Entity class
  */
@@ -61,18 +131,43 @@ export class Entity {
   public id: string;
   public active: boolean = true;
   public components: Map<string, Component> = new Map();
+  // manager this entity belongs to, kept so tag changes update its index
+  public manager: EntityManager | null = null;
   
   constructor(id?: string) {
-    this.id = id || `entity_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.id = id || `entity_${rng.stream('entities').string(12)}`;
   }
   
+  /**
+   * Add a component, replacing (and removing) any existing one of the same type
+   */
   addComponent(component: Component): this {
+    const previous = this.components.get(component.type);
+    if (previous === component) return this;
+    const shape = component.type === 'collider' ? (component as ColliderComponent).shape : undefined;
+    const problems = shape ? findShapeProblems(shape) : [];
+    if (problems.length > 0) {
+      throw new Error(`Invalid collider shape: ${problems.join(', ')}`);
+    }
+    if (previous) {
+      this.removeComponent(previous.type);
+    }
+    
     this.components.set(component.type, component);
+    if (component.type === 'tags') {
+      this.getTags().forEach(tag => this.manager?.indexTag(this, tag));
+    }
+    component.onAdd?.(this);
+    this.manager?.componentAdded(this, component);
     return this;
   }
   
-  getComponent<T extends Component>(type: string): T | undefined {
-    return this.components.get(type) as T;
+  getComponent<K extends ComponentType>(type: K): ComponentTypes[K] | undefined;
+  // eslint-disable-next-line no-dupe-class-members
+  getComponent<T extends Component>(type: string): T | undefined;
+  // eslint-disable-next-line no-dupe-class-members
+  getComponent(type: string): Component | undefined {
+    return this.components.get(type);
   }
   
   hasComponent(type: string): boolean {
@@ -80,7 +175,55 @@ export class Entity {
   }
   
   removeComponent(type: string): void {
+    const component = this.components.get(type);
+    if (!component) return;
+    
+    if (type === 'tags') {
+      this.unindexTags();
+    }
     this.components.delete(type);
+    component.onRemove?.(this);
+    this.manager?.componentRemoved(this, component);
+  }
+  
+  /**
+   * Tag the entity, adding a tags component if needed
+   */
+  addTag(...tags: string[]): this {
+    let component = this.getComponent('tags');
+    if (!component) {
+      component = { type: 'tags', tags: [] };
+      this.addComponent(component);
+    }
+    
+    for (const tag of tags) {
+      if (component.tags.includes(tag)) continue;
+      component.tags.push(tag);
+      this.manager?.indexTag(this, tag);
+    }
+    return this;
+  }
+  
+  removeTag(tag: string): this {
+    const component = this.getComponent('tags');
+    const index = component ? component.tags.indexOf(tag) : -1;
+    if (component && index !== -1) {
+      component.tags.splice(index, 1);
+      this.manager?.unindexTag(this, tag);
+    }
+    return this;
+  }
+  
+  hasTag(tag: string): boolean {
+    return this.getComponent('tags')?.tags.includes(tag) ?? false;
+  }
+  
+  getTags(): readonly string[] {
+    return this.getComponent('tags')?.tags ?? [];
+  }
+  
+  private unindexTags(): void {
+    this.getTags().forEach(tag => this.manager?.unindexTag(this, tag));
   }
   
   update(dt: number): void {
@@ -105,164 +248,322 @@ export class Entity {
   
   destroy(): void {
     this.active = false;
-    this.components.clear();
+    for (const type of Array.from(this.components.keys())) {
+      this.removeComponent(type);
+    }
   }
 }
 
 /**
- * Entity Factory - Creates common entity types
+ * Entity Factory - Creates entities from prefabs (see data/prefabs.json)
  */
 export class EntityFactory {
-  static createPlayer(x: number, y: number): Entity {
-    const entity = new Entity('player');
-    
-    entity.addComponent({
-      type: 'transform',
-      position: { x, y },
-      rotation: 0,
-      scale: { x: 1, y: 1 },
-    } as TransformComponent);
-    
-    entity.addComponent({
-      type: 'physics',
-      velocity: { x: 0, y: 0 },
-      acceleration: { x: 0, y: 0 },
-      mass: 1,
-      friction: config.physics.friction,
-    } as PhysicsComponent);
-    
-    entity.addComponent({
-      type: 'sprite',
-      width: config.player.size,
-      height: config.player.size,
-      color: config.player.color,
-    } as SpriteComponent);
-    
-    entity.addComponent({
-      type: 'collider',
-      width: config.player.size,
-      height: config.player.size,
-      isTrigger: false,
-    } as ColliderComponent);
+  /**
+   * Build an entity from a named prefab at a position, optionally overriding component values
+   */
+  static create(name: string, x: number, y: number, overrides: PrefabOverrides = {}): Entity {
+    const prefab = prefabs.instantiate(name, overrides);
+    const entity = new Entity(prefab.id);
+    if (prefab.tags.length > 0) {
+      entity.addTag(...prefab.tags);
+    }
     
-    entity.addComponent({
-      type: 'health',
-      current: config.player.maxHealth,
-      max: config.player.maxHealth,
-    } as HealthComponent);
+    for (const component of prefab.components) {
+      if (component.type === 'transform') {
+        (component as TransformComponent).position = { x, y };
+      }
+      entity.addComponent(component);
+    }
+    this.bindSprite(entity);
     
     return entity;
   }
   
+  /**
+   * Give an entity's sprite the image its spriteName names, once that has loaded
+   */
+  static bindSprite(entity: Entity): void {
+    const sprite = entity.getComponent('sprite');
+    if (sprite?.spriteName && !sprite.image) {
+      sprite.image = getSprite(sprite.spriteName);
+    }
+  }
+  
+  static createPlayer(x: number, y: number): Entity {
+    return this.create('player', x, y);
+  }
+  
   static createEnemy(x: number, y: number): Entity {
-    const entity = new Entity();
-    
-    entity.addComponent({
-      type: 'transform',
-      position: { x, y },
-      rotation: 0,
-      scale: { x: 1, y: 1 },
-    } as TransformComponent);
-    
-    entity.addComponent({
-      type: 'physics',
-      velocity: { x: 0, y: 0 },
-      acceleration: { x: 0, y: 0 },
-      mass: 1,
-      friction: config.physics.friction,
-    } as PhysicsComponent);
-    
-    entity.addComponent({
-      type: 'sprite',
-      width: config.enemy.size,
-      height: config.enemy.size,
-      color: config.enemy.color,
-    } as SpriteComponent);
-    
-    entity.addComponent({
-      type: 'collider',
-      width: config.enemy.size,
-      height: config.enemy.size,
-      isTrigger: false,
-    } as ColliderComponent);
-    
-    return entity;
+    return this.create('flame', x, y);
   }
   
   static createPickup(x: number, y: number): Entity {
-    const entity = new Entity();
-    
-    entity.addComponent({
-      type: 'transform',
-      position: { x, y },
-      rotation: 0,
-      scale: { x: 1, y: 1 },
-    } as TransformComponent);
-    
-    entity.addComponent({
-      type: 'sprite',
-      width: config.pickup.size,
-      height: config.pickup.size,
-      color: config.pickup.color,
-    } as SpriteComponent);
-    
-    entity.addComponent({
-      type: 'collider',
-      width: config.pickup.size,
-      height: config.pickup.size,
-      isTrigger: true,
-    } as ColliderComponent);
-    
-    return entity;
+    return this.create('pickup', x, y);
   }
 }
 
 /**
- * Entity Manager - Manages all entities in the game
+ * Change notifications from an EntityManager, so systems can keep their own
+ * indexes up to date instead of rescanning every entity
+ */
+export interface EntityManagerEvents {
+  'entity:added': { entity: Entity };
+  'entity:removed': { entity: Entity }; // also when detached, e.g. into a pool
+  'component:added': { entity: Entity; component: Component };
+  'component:removed': { entity: Entity; component: Component };
+}
+
+/**
+ * Entity Manager - Manages all entities in the game.
+ * Iteration is stable: update, render and query walk a list that adding or
+ * removing entities replaces rather than mutates, so changes made mid-loop
+ * take effect from the next loop. Prefer a CommandBuffer for such changes.
  */
 export class EntityManager {
   private entities: Map<string, Entity> = new Map();
+  // entities in insertion order, rebuilt after add/remove
+  private list: Entity[] | null = null;
+  private tagIndex: Map<string, Set<Entity>> = new Map();
+  // child entity ids by parent id
+  private children: Map<string, Set<string>> = new Map();
+  readonly events: EventBus<EntityManagerEvents> = new EventBus();
   
   add(entity: Entity): void {
     this.entities.set(entity.id, entity);
+    this.list = null;
+    entity.manager = this;
+    entity.getTags().forEach(tag => this.indexTag(entity, tag));
+    
+    const parentId = entity.getComponent('transform')?.parent;
+    if (parentId) {
+      this.linkChild(parentId, entity.id);
+    }
+    this.events.emit('entity:added', { entity });
   }
   
+  /**
+   * Remove an entity and, with it, all of its descendants
+   */
   remove(id: string): void {
+    this.detach(id)?.destroy();
+  }
+  
+  /**
+   * Take an entity out of the manager without destroying it (e.g. to pool it).
+   * Its descendants are removed.
+   */
+  detach(id: string): Entity | undefined {
     const entity = this.entities.get(id);
-    if (entity) {
-      entity.destroy();
-      this.entities.delete(id);
+    if (!entity) return undefined;
+    
+    for (const childId of Array.from(this.children.get(id) ?? [])) {
+      this.remove(childId);
+    }
+    this.children.delete(id);
+    
+    const parentId = entity.getComponent('transform')?.parent;
+    if (parentId) {
+      this.children.get(parentId)?.delete(id);
+    }
+    
+    entity.getTags().forEach(tag => this.unindexTag(entity, tag));
+    entity.manager = null;
+    this.entities.delete(id);
+    this.list = null;
+    this.events.emit('entity:removed', { entity });
+    return entity;
+  }
+  
+  /**
+   * Attach an entity to a parent (or detach it with null). Its transform becomes
+   * relative to the parent; with keepWorldTransform it stays where it is on screen.
+   */
+  setParent(child: Entity, parent: Entity | null, keepWorldTransform: boolean = false): void {
+    const transform = child.getComponent('transform');
+    if (!transform) {
+      throw new Error(`Entity ${child.id} has no transform to parent`);
+    }
+    if (parent && !parent.hasComponent('transform')) {
+      throw new Error(`Entity ${parent.id} has no transform to parent to`);
+    }
+    for (let ancestor = parent; ancestor; ancestor = this.getParent(ancestor) ?? null) {
+      if (ancestor === child) {
+        throw new Error(`Cannot parent ${child.id} to itself or its own descendant`);
+      }
+    }
+    
+    const world = keepWorldTransform ? getWorldTransform(child) : null;
+    
+    if (transform.parent) {
+      this.children.get(transform.parent)?.delete(child.id);
+    }
+    transform.parent = parent?.id;
+    if (parent) {
+      this.linkChild(parent.id, child.id);
+    }
+    
+    if (world) {
+      const parentWorld = parent ? getWorldTransform(parent) : null;
+      const local = parentWorld ? toLocalTransform(world, parentWorld) : world;
+      transform.position = local.position;
+      transform.rotation = local.rotation;
+      transform.scale = local.scale;
+    }
+    // don't interpolate across the jump into the new space
+    transform.previousPosition = undefined;
+  }
+  
+  getParent(entity: Entity): Entity | undefined {
+    const parentId = entity.getComponent('transform')?.parent;
+    return parentId ? this.entities.get(parentId) : undefined;
+  }
+  
+  getChildren(entity: Entity): Entity[] {
+    const ids = Array.from(this.children.get(entity.id) ?? []);
+    return ids.map(id => this.entities.get(id)).filter((e): e is Entity => e !== undefined);
+  }
+  
+  /**
+   * Activate or deactivate an entity together with all of its descendants
+   */
+  setActive(entity: Entity, active: boolean): void {
+    entity.active = active;
+    for (const child of this.getChildren(entity)) {
+      this.setActive(child, active);
+    }
+  }
+  
+  private linkChild(parentId: string, childId: string): void {
+    let ids = this.children.get(parentId);
+    if (!ids) {
+      ids = new Set();
+      this.children.set(parentId, ids);
     }
+    ids.add(childId);
   }
   
   get(id: string): Entity | undefined {
     return this.entities.get(id);
   }
   
+  get size(): number {
+    return this.entities.size;
+  }
+  
   getAll(): Entity[] {
-    return Array.from(this.entities.values());
+    profiler.allocate('entityArrays');
+    return [...this.iterate()];
   }
   
   getByComponent(componentType: string): Entity[] {
     return this.getAll().filter(e => e.hasComponent(componentType));
   }
   
+  /**
+   * Entities with a tag, looked up in the tag index
+   */
+  getByTag(tag: string): Entity[] {
+    const tagged = this.tagIndex.get(tag);
+    if (!tagged) return [];
+    profiler.allocate('entityArrays');
+    return Array.from(tagged);
+  }
+  
+  /**
+   * Current entity list; never mutated, only replaced, so loops over it are stable
+   */
+  private iterate(): readonly Entity[] {
+    if (!this.list) {
+      profiler.allocate('entityArrays');
+      this.list = Array.from(this.entities.values());
+    }
+    return this.list;
+  }
+  
+  countByTag(tag: string): number {
+    return this.tagIndex.get(tag)?.size ?? 0;
+  }
+  
+  /**
+   * Called by Entity when it gains a tag
+   */
+  indexTag(entity: Entity, tag: string): void {
+    let tagged = this.tagIndex.get(tag);
+    if (!tagged) {
+      tagged = new Set();
+      this.tagIndex.set(tag, tagged);
+    }
+    tagged.add(entity);
+  }
+  
+  /**
+   * Called by Entity when it loses a tag
+   */
+  unindexTag(entity: Entity, tag: string): void {
+    this.tagIndex.get(tag)?.delete(entity);
+  }
+  
+  /**
+   * Called by Entity when it gains a component
+   */
+  componentAdded(entity: Entity, component: Component): void {
+    this.events.emit('component:added', { entity, component });
+  }
+  
+  /**
+   * Called by Entity when it loses a component
+   */
+  componentRemoved(entity: Entity, component: Component): void {
+    this.events.emit('component:removed', { entity, component });
+  }
+  
+  /**
+   * Active entities that have every listed component, with those components:
+   *   for (const [entity, transform, physics] of manager.query('transform', 'physics'))
+   */
+  query<K extends ComponentType[]>(...types: K): Array<[Entity, ...ComponentTuple<K>]> {
+    const results: Array<[Entity, ...ComponentTuple<K>]> = [];
+    profiler.allocate('entityArrays');
+    
+    for (const entity of this.iterate()) {
+      if (!entity.active) continue;
+      
+      const components: Component[] = [];
+      for (const type of types) {
+        const component = entity.components.get(type);
+        if (!component) break;
+        components.push(component);
+      }
+      
+      if (components.length === types.length) {
+        results.push([entity, ...components] as [Entity, ...ComponentTuple<K>]);
+      }
+    }
+    
+    return results;
+  }
+  
   update(dt: number): void {
-    for (const entity of this.entities.values()) {
+    for (const entity of this.iterate()) {
       entity.update(dt);
     }
   }
   
   render(ctx: CanvasRenderingContext2D): void {
-    for (const entity of this.entities.values()) {
+    for (const entity of this.iterate()) {
       entity.render(ctx);
     }
   }
   
   clear(): void {
     for (const entity of this.entities.values()) {
+      entity.manager = null;
+      this.events.emit('entity:removed', { entity });
       entity.destroy();
     }
     this.entities.clear();
+    this.list = null;
+    this.tagIndex.clear();
+    this.children.clear();
   }
 }
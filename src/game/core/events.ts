@@ -0,0 +1,150 @@
+/**
+ * Event Bus
+ * Typed publish/subscribe for gameplay events, immediate or queued
+ */
+
+import type { Entity } from './entity';
+import type { PlacedSprite } from '../spawn';
+
+/**
+ * Gameplay events and their payloads
+ */
+export interface GameEvents {
+  'entity:damaged': { entity: Entity; amount: number; source?: Entity };
+  'entity:healed': { entity: Entity; amount: number; source?: Entity };
+  'entity:died': { entity: Entity };
+  'flame:extinguished': { flame: Entity };
+  'pickup:collected': { pickup: Entity; collector: Entity };
+  'room:cleared': { room: number };
+  'room:entered': { room: number };
+  'music:ended': { victory: boolean };
+  'collision': { a: Entity; b: Entity };
+  'collision:enter': { a: Entity; b: Entity };
+  'collision:stay': { a: Entity; b: Entity };
+  'collision:exit': { a: Entity; b: Entity };
+  'sprite:spawned': PlacedSprite;
+}
+
+export type EventHandler<T> = (payload: T) => void;
+
+export interface ListenerOptions {
+  priority?: number; // higher runs first (default 0)
+  once?: boolean;
+}
+
+interface Listener<T> {
+  handler: EventHandler<T>;
+  priority: number;
+  once: boolean;
+}
+
+export class EventBus<Events = GameEvents> {
+  private listeners: Map<keyof Events, Listener<unknown>[]> = new Map();
+  private queued: Array<{ type: keyof Events; payload: unknown }> = [];
+
+  /**
+   * Subscribe to an event; returns a function that unsubscribes
+   */
+  on<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>, options: ListenerOptions = {}): () => void {
+    const listeners = this.listeners.get(type) || [];
+    const listener: Listener<Events[K]> = {
+      handler,
+      priority: options.priority ?? 0,
+      once: options.once ?? false,
+    };
+
+    // keep sorted by priority; equal priorities run in subscription order
+    let index = listeners.length;
+    while (index > 0 && listeners[index - 1].priority < listener.priority) {
+      index--;
+    }
+    listeners.splice(index, 0, listener as Listener<unknown>);
+    this.listeners.set(type, listeners);
+
+    return () => this.removeListener(type, listener as Listener<unknown>);
+  }
+
+  /**
+   * Subscribe for the next occurrence only
+   */
+  once<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>, options: ListenerOptions = {}): () => void {
+    return this.on(type, handler, { ...options, once: true });
+  }
+
+  off<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) return;
+
+    const index = listeners.findIndex(l => l.handler === handler);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Remove one subscription, even when the same handler is registered more than once
+   */
+  private removeListener(type: keyof Events, listener: Listener<unknown>): void {
+    const listeners = this.listeners.get(type);
+    const index = listeners ? listeners.indexOf(listener) : -1;
+    if (index !== -1) {
+      listeners!.splice(index, 1);
+    }
+  }
+
+  /**
+   * Deliver an event to its listeners right away
+   */
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners || listeners.length === 0) return;
+
+    // iterate a copy so handlers can (un)subscribe safely
+    for (const listener of [...listeners]) {
+      if (listener.once) {
+        this.removeListener(type, listener);
+      }
+      listener.handler(payload);
+    }
+  }
+
+  /**
+   * Hold an event until the next flush() (the engine flushes after every tick)
+   */
+  queue<K extends keyof Events>(type: K, payload: Events[K]): void {
+    this.queued.push({ type, payload });
+  }
+
+  /**
+   * Deliver queued events in the order they were queued
+   */
+  flush(): void {
+    // events queued by handlers during the flush wait for the next one
+    const pending = this.queued;
+    this.queued = [];
+    for (const { type, payload } of pending) {
+      this.emit(type, payload as Events[typeof type]);
+    }
+  }
+
+  listenerCount<K extends keyof Events>(type: K): number {
+    return this.listeners.get(type)?.length ?? 0;
+  }
+
+  /**
+   * Remove listeners for one event, or every listener and queued event
+   */
+  clear<K extends keyof Events>(type?: K): void {
+    if (type) {
+      this.listeners.delete(type);
+    } else {
+      this.listeners.clear();
+      this.queued = [];
+    }
+  }
+}
+
+// Shared bus for the browser game
+const gameEvents = new EventBus<GameEvents>();
+
+export default gameEvents;
@@ -0,0 +1,34 @@
+/**
+ * Health Helpers
+ * Apply damage and healing to entities, announcing changes on the event bus
+ */
+
+import { Entity } from './entity';
+import { EventBus } from './events';
+
+/**
+ * Subtract health; emits entity:damaged and, at zero, entity:died
+ */
+export function applyDamage(entity: Entity, amount: number, events: EventBus, source?: Entity): void {
+  const health = entity.getComponent('health');
+  if (!health || health.current <= 0) return;
+
+  health.current = Math.max(0, health.current - amount);
+  events.emit('entity:damaged', { entity, amount, source });
+
+  if (health.current === 0) {
+    health.onDeath?.();
+    events.emit('entity:died', { entity });
+  }
+}
+
+/**
+ * Add health up to the maximum; emits entity:healed
+ */
+export function applyHealing(entity: Entity, amount: number, events: EventBus, source?: Entity): void {
+  const health = entity.getComponent('health');
+  if (!health || health.current <= 0) return;
+
+  health.current = Math.min(health.current + amount, health.max);
+  events.emit('entity:healed', { entity, amount, source });
+}
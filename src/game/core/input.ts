@@ -15,6 +15,28 @@ export interface InputState {
     x: number;
     y: number;
   };
+  joystick: {
+    x: number;
+    y: number;
+  };
+}
+
+/**
+ * Plain-data copy of one tick's input, used for recording and replay
+ */
+export interface InputSnapshot {
+  keys: string[];
+  pressed: string[]; // keys that went down this tick
+  mouse: { x: number; y: number; pressed: boolean };
+  touch: { active: boolean; x: number; y: number };
+  joystick: { x: number; y: number };
+}
+
+/**
+ * Anything that reports an analog stick position (-1 to 1 per axis)
+ */
+export interface AxisSource {
+  getAxis(): { x: number; y: number };
 }
 
 export class InputSystem {
@@ -22,64 +44,102 @@ export class InputSystem {
     keys: new Set(),
     mouse: { x: 0, y: 0, pressed: false },
     touch: { active: false, x: 0, y: 0 },
+    joystick: { x: 0, y: 0 },
   };
   
-  private canvas: HTMLCanvasElement;
+  // keys that went down since the last simulation tick
+  private justPressed: Set<string> = new Set();
+  
+  private canvas: HTMLCanvasElement | null;
+  private joystick: AxisSource | null = null;
+  
+  // false while a replay drives input; DOM events are ignored
+  private live: boolean = true;
   
-  constructor(canvas: HTMLCanvasElement) {
-    this.canvas = canvas;
-    this.setupListeners();
+  /**
+   * Without a canvas no DOM listeners are attached; drive input with setKey()
+   */
+  constructor(canvas?: HTMLCanvasElement) {
+    this.canvas = canvas ?? null;
+    if (this.canvas) {
+      this.setupListeners(this.canvas);
+    }
   }
   
-  private setupListeners(): void {
+  private setupListeners(canvas: HTMLCanvasElement): void {
     // Keyboard events
     window.addEventListener('keydown', (e) => {
-      this.state.keys.add(e.key.toLowerCase());
+      if (this.live) this.setKey(e.key, true);
     });
     
     window.addEventListener('keyup', (e) => {
-      this.state.keys.delete(e.key.toLowerCase());
+      if (this.live) this.setKey(e.key, false);
     });
     
     // Mouse events
-    this.canvas.addEventListener('mousemove', (e) => {
-      const rect = this.canvas.getBoundingClientRect();
+    canvas.addEventListener('mousemove', (e) => {
+      if (!this.live) return;
+      const rect = canvas.getBoundingClientRect();
       this.state.mouse.x = e.clientX - rect.left;
       this.state.mouse.y = e.clientY - rect.top;
     });
     
-    this.canvas.addEventListener('mousedown', () => {
-      this.state.mouse.pressed = true;
+    canvas.addEventListener('mousedown', () => {
+      if (this.live) this.state.mouse.pressed = true;
     });
     
-    this.canvas.addEventListener('mouseup', () => {
-      this.state.mouse.pressed = false;
+    canvas.addEventListener('mouseup', () => {
+      if (this.live) this.state.mouse.pressed = false;
     });
     
     // Touch events
-    this.canvas.addEventListener('touchstart', (e) => {
+    canvas.addEventListener('touchstart', (e) => {
       e.preventDefault();
-      const rect = this.canvas.getBoundingClientRect();
+      if (!this.live) return;
+      const rect = canvas.getBoundingClientRect();
       const touch = e.touches[0];
       this.state.touch.active = true;
       this.state.touch.x = touch.clientX - rect.left;
       this.state.touch.y = touch.clientY - rect.top;
     });
     
-    this.canvas.addEventListener('touchmove', (e) => {
+    canvas.addEventListener('touchmove', (e) => {
       e.preventDefault();
-      const rect = this.canvas.getBoundingClientRect();
+      if (!this.live) return;
+      const rect = canvas.getBoundingClientRect();
       const touch = e.touches[0];
       this.state.touch.x = touch.clientX - rect.left;
       this.state.touch.y = touch.clientY - rect.top;
     });
     
-    this.canvas.addEventListener('touchend', (e) => {
+    canvas.addEventListener('touchend', (e) => {
       e.preventDefault();
-      this.state.touch.active = false;
+      if (this.live) this.state.touch.active = false;
     });
   }
   
+  /**
+   * Read movement from a virtual joystick in addition to the keyboard
+   */
+  attachJoystick(joystick: AxisSource): void {
+    this.joystick = joystick;
+  }
+  
+  /**
+   * Press or release a key (used by DOM listeners and scripted/headless input)
+   */
+  setKey(key: string, down: boolean): void {
+    const name = key.toLowerCase();
+    if (down) {
+      if (!this.state.keys.has(name)) {
+        this.justPressed.add(name);
+      }
+      this.state.keys.add(name);
+    } else {
+      this.state.keys.delete(name);
+    }
+  }
+  
   /**
    * Check if a key is currently pressed
    */
@@ -87,6 +147,31 @@ export class InputSystem {
     return this.state.keys.has(key.toLowerCase());
   }
   
+  /**
+   * Check if a key went down since the last tick (ignores key repeat)
+   */
+  isKeyJustPressed(key: string): boolean {
+    return this.justPressed.has(key.toLowerCase());
+  }
+  
+  /**
+   * Mark the start of a simulation tick, sampling polled devices
+   */
+  beginTick(): void {
+    if (this.live && this.joystick) {
+      const axis = this.joystick.getAxis();
+      this.state.joystick.x = axis.x;
+      this.state.joystick.y = axis.y;
+    }
+  }
+  
+  /**
+   * Mark the end of a simulation tick, expiring just-pressed keys
+   */
+  endTick(): void {
+    this.justPressed.clear();
+  }
+  
   /**
    * Check if any of the specified keys are pressed
    */
@@ -98,7 +183,7 @@ export class InputSystem {
    * Get horizontal input (-1 to 1)
    */
   getHorizontal(): number {
-    let horizontal = 0;
+    let horizontal = this.state.joystick.x;
     
     if (this.isAnyKeyPressed(['a', 'arrowleft'])) {
       horizontal -= 1;
@@ -107,14 +192,14 @@ export class InputSystem {
       horizontal += 1;
     }
     
-    return horizontal;
+    return Math.max(-1, Math.min(1, horizontal));
   }
   
   /**
    * Get vertical input (-1 to 1)
    */
   getVertical(): number {
-    let vertical = 0;
+    let vertical = this.state.joystick.y;
     
     if (this.isAnyKeyPressed(['w', 'arrowup'])) {
       vertical -= 1;
@@ -123,7 +208,7 @@ export class InputSystem {
       vertical += 1;
     }
     
-    return vertical;
+    return Math.max(-1, Math.min(1, vertical));
   }
   
   /**
@@ -155,12 +240,51 @@ export class InputSystem {
     return this.state.touch.active;
   }
   
+  /**
+   * Copy the current input state
+   */
+  getSnapshot(): InputSnapshot {
+    return {
+      keys: Array.from(this.state.keys),
+      pressed: Array.from(this.justPressed),
+      mouse: { ...this.state.mouse },
+      touch: { ...this.state.touch },
+      joystick: { ...this.state.joystick },
+    };
+  }
+  
+  /**
+   * Overwrite the current input state (replay playback)
+   */
+  applySnapshot(snapshot: InputSnapshot): void {
+    this.state.keys = new Set(snapshot.keys);
+    this.justPressed = new Set(snapshot.pressed);
+    this.state.mouse = { ...snapshot.mouse };
+    this.state.touch = { ...snapshot.touch };
+    this.state.joystick = { ...snapshot.joystick };
+  }
+  
+  /**
+   * Switch between live DOM input and externally driven input
+   */
+  setLive(live: boolean): void {
+    this.live = live;
+    this.clear();
+  }
+  
+  isLive(): boolean {
+    return this.live;
+  }
+  
   /**
    * Clear all input states (useful when switching scenes)
    */
   clear(): void {
     this.state.keys.clear();
+    this.justPressed.clear();
     this.state.mouse.pressed = false;
     this.state.touch.active = false;
+    this.state.joystick.x = 0;
+    this.state.joystick.y = 0;
   }
 }
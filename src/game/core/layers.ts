@@ -0,0 +1,74 @@
+/**
+ * Collision Layers
+ * Named layers from config, turned into bitmasks for fast filtering
+ */
+
+import type { ColliderComponent } from './entity';
+import { config } from '../config';
+
+export const DEFAULT_LAYER = 'default';
+// layer solid tiles are on
+export const TILE_LAYER = 'wall';
+
+/**
+ * A collider's layer bit and the bits of the layers it hits
+ */
+export interface CollisionFilter {
+  layer: number;
+  mask: number;
+}
+
+export function layerBit(name: string): number {
+  const index = config.collision.layers.indexOf(name);
+  if (index === -1) {
+    throw new Error(`Unknown collision layer: ${name}`);
+  }
+  if (index >= 32) {
+    throw new Error(`Too many collision layers; "${name}" is past the 32nd`);
+  }
+  return 1 << index;
+}
+
+export function maskBits(names: readonly string[]): number {
+  return names.reduce((bits, name) => bits | layerBit(name), 0);
+}
+
+/**
+ * Layers a layer collides with by default, from config.collision.matrix
+ */
+export function defaultMask(layer: string): string[] {
+  return config.collision.matrix[layer] ?? [];
+}
+
+export function getCollisionFilter(collider: ColliderComponent): CollisionFilter {
+  const layer = collider.layer ?? DEFAULT_LAYER;
+  return {
+    layer: layerBit(layer),
+    mask: maskBits(collider.mask ?? defaultMask(layer)),
+  };
+}
+
+/**
+ * Whether two filters interact; each must include the other's layer
+ */
+export function filtersCollide(a: CollisionFilter, b: CollisionFilter): boolean {
+  return (a.mask & b.layer) !== 0 && (b.mask & a.layer) !== 0;
+}
+
+/**
+ * Whether colliders on two layers interact, using the default masks
+ */
+export function layersCollide(a: string, b: string): boolean {
+  return defaultMask(a).includes(b) && defaultMask(b).includes(a);
+}
+
+/**
+ * Every layer against every other, e.g. for the debug overlay
+ */
+export function getCollisionMatrix(): { layers: string[]; collides: boolean[][] } {
+  const layers = [...config.collision.layers];
+  return {
+    layers,
+    collides: layers.map(a => layers.map(b => layersCollide(a, b))),
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Fixed Timestep Loop
+ * Accumulates variable frame time into fixed simulation ticks
+ */
+
+export class FixedTimestep {
+  readonly step: number;
+  readonly maxSteps: number;
+  private accumulator: number = 0;
+  // simulated seconds per real second (fast-forward for replays)
+  timeScale: number = 1;
+
+  constructor(tickRate: number, maxSteps: number) {
+    this.step = 1 / tickRate;
+    this.maxSteps = maxSteps;
+  }
+
+  /**
+   * Add elapsed frame time (seconds) and return how many ticks to simulate.
+   * Time beyond maxSteps ticks is dropped so a slow frame can't snowball.
+   */
+  advance(frameTime: number): number {
+    this.accumulator += Math.max(0, frameTime) * this.timeScale;
+
+    const maxSteps = this.maxSteps * Math.max(1, Math.ceil(this.timeScale));
+    let steps = Math.floor(this.accumulator / this.step);
+    if (steps > maxSteps) {
+      steps = maxSteps;
+      this.accumulator = 0;
+    } else {
+      this.accumulator -= steps * this.step;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Fraction (0-1) of a tick left in the accumulator, used to interpolate rendering
+   */
+  get alpha(): number {
+    return Math.min(this.accumulator / this.step, 1);
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
@@ -3,7 +3,16 @@
  * Handles physics updates and collision detection
  */
 
-import { Entity, TransformComponent, PhysicsComponent, ColliderComponent, Vector2 } from './entity';
+import { Entity, EntityManager, EntityManagerEvents, ColliderComponent, PhysicsComponent, Vector2 } from './entity';
+import { EventBus } from './events';
+import profiler from './profiler';
+import { SpatialHash, overlaps, forEachCellOnRay } from './spatialHash';
+import { ContactTracker } from './contacts';
+import { Contact, WorldShape, getWorldShape, getShapeBounds, collideShapes, rayShape, support } from './shapes';
+import { SweepHit, rayBox, sweepAABB, sweepCircle, sweepCircleCircle } from './sweep';
+import { getWorldTransform } from './transform';
+import { Tilemap } from './tilemap';
+import { TILE_LAYER, getCollisionFilter, filtersCollide, layerBit, maskBits, defaultMask } from './layers';
 import { config } from '../config';
 
 export interface AABB {
@@ -13,16 +22,64 @@ export interface AABB {
   height: number;
 }
 
+/**
+ * What a moving entity would run into first; entity is unset for walls
+ */
+export interface SweepResult extends SweepHit {
+  entity?: Entity;
+}
+
+/**
+ * Filters for world queries (raycast, shape cast, overlaps)
+ */
+export interface QueryOptions {
+  layers?: string[]; // only colliders on these layers; every layer by default
+  tilemap?: Tilemap; // solid tiles block the query too
+  ignore?: Entity[]; // e.g. the entity doing the looking
+  includeTriggers?: boolean; // trigger colliders are skipped unless set
+}
+
+/**
+ * Where a ray or cast shape first touched something; entity is unset for walls
+ */
+export interface QueryHit {
+  entity?: Entity;
+  point: Vector2; // contact point in world space
+  normal: Vector2; // surface normal there, pointing back along the query
+  distance: number; // how far along the query the contact is
+}
+
+/**
+ * What a cast can run into besides walls
+ */
+interface CastTargets {
+  entities?: EntityManager;
+  mask?: number;
+  accept: (other: Entity) => boolean;
+}
+
+// swept moves per tick, letting a bullet slide along walls after hitting them
+const MAX_SWEEPS = 3;
+// how far short of walls bullets stop, and how far into colliders, so the contact
+// registers; also how far apart bodies can drift and still count as in contact
+const CONTACT_SKIN = 0.01;
+
 export class PhysicsSystem {
+  // broadphase grid per entity manager, built on first use and kept current
+  // from the manager's change notifications and update()
+  private static broadphases: WeakMap<EntityManager, SpatialHash<Entity>> = new WeakMap();
+  // pairs in contact per entity manager, as of the last checkCollisions()
+  private static contacts: WeakMap<EntityManager, ContactTracker<Entity>> = new WeakMap();
+  
   /**
-   * Update physics for all entities
+   * Update physics for all entities; solid tiles of the tilemap block movement
    */
-  static update(entities: Entity[], dt: number): void {
+  static update(entities: Entity[], dt: number, tilemap?: Tilemap): void {
     for (const entity of entities) {
       if (!entity.active) continue;
       
-      const transform = entity.getComponent<TransformComponent>('transform');
-      const physics = entity.getComponent<PhysicsComponent>('physics');
+      const transform = entity.getComponent('transform');
+      const physics = entity.getComponent('physics');
       
       if (!transform || !physics) continue;
       
@@ -30,9 +87,10 @@ export class PhysicsSystem {
       physics.velocity.x += physics.acceleration.x * dt;
       physics.velocity.y += physics.acceleration.y * dt;
       
-      // Apply friction
-      physics.velocity.x *= physics.friction;
-      physics.velocity.y *= physics.friction;
+      // Apply damping, scaled by dt so it doesn't depend on the tick rate
+      const retained = Math.exp(-physics.damping * dt);
+      physics.velocity.x *= retained;
+      physics.velocity.y *= retained;
       
       // Clamp velocity to max
       const maxVel = config.physics.maxVelocity;
@@ -42,15 +100,27 @@ export class PhysicsSystem {
         physics.velocity.y = (physics.velocity.y / speed) * maxVel;
       }
       
-      // Update position
-      transform.position.x += physics.velocity.x * dt;
-      transform.position.y += physics.velocity.y * dt;
+      // Attached entities move with their parent; only roots hit walls and are kept on screen
+      const blocked = tilemap && !transform.parent ? tilemap : null;
+      
+      if (physics.bullet && !transform.parent) {
+        this.moveContinuous(entity, dt, tilemap);
+      } else {
+        // Update position one axis at a time, so a wall stops movement along
+        // one axis while the entity slides along it on the other
+        transform.position.x += physics.velocity.x * dt;
+        if (blocked) this.resolveTiles(entity, blocked, 'x');
+        transform.position.y += physics.velocity.y * dt;
+        if (blocked) this.resolveTiles(entity, blocked, 'y');
+      }
+      
+      if (transform.parent) continue;
       
       // Keep within canvas bounds
       const canvasWidth = config.canvas.width;
       const canvasHeight = config.canvas.height;
       const sprite = entity.getComponent('sprite');
-      const size = sprite ? (sprite as any).width : 32;
+      const size = sprite ? sprite.width : 32;
       
       if (transform.position.x < 0) {
         transform.position.x = 0;
@@ -69,131 +139,563 @@ export class PhysicsSystem {
         physics.velocity.y = 0;
       }
     }
+    
+    // children move with their parents, so re-file everything that may have moved
+    for (const entity of entities) {
+      this.refresh(entity);
+    }
+  }
+  
+  /**
+   * Move an entity back out of the solid tiles it just moved into along one axis
+   */
+  private static resolveTiles(entity: Entity, tilemap: Tilemap, axis: 'x' | 'y'): void {
+    const transform = entity.getComponent('transform');
+    const physics = entity.getComponent('physics');
+    const collider = entity.getComponent('collider');
+    const box = this.getAABB(entity);
+    if (!transform || !physics || !collider || !box) return;
+    
+    if (!this.hitsTiles(collider)) return;
+    
+    const velocity = physics.velocity[axis];
+    const tiles = tilemap.getSolidTiles(box);
+    if (velocity === 0 || tiles.length === 0) return;
+    
+    // tiles are boxes, so shapes are pushed out by their bounds
+    const size = axis === 'x' ? box.width : box.height;
+    let shift = 0;
+    for (const tile of tiles) {
+      const start = tile[axis];
+      const end = start + (axis === 'x' ? tile.width : tile.height);
+      shift = velocity > 0
+        ? Math.min(shift, start - (box[axis] + size))
+        : Math.max(shift, end - box[axis]);
+    }
+    transform.position[axis] += shift;
+    this.bounce(physics, axis === 'x' ? { x: -Math.sign(velocity), y: 0 } : { x: 0, y: -Math.sign(velocity) });
+  }
+  
+  /**
+   * Take out the velocity going into a static surface, bouncing some of it back
+   * by the body's restitution
+   */
+  private static bounce(physics: PhysicsComponent, normal: Vector2): void {
+    const into = physics.velocity.x * normal.x + physics.velocity.y * normal.y;
+    if (into >= 0) return;
+    
+    const change = into * (1 + (physics.restitution ?? 0));
+    physics.velocity.x -= normal.x * change;
+    physics.velocity.y -= normal.y * change;
+  }
+  
+  /**
+   * Whether a collider's layers let solid tiles block it
+   */
+  private static hitsTiles(collider: ColliderComponent): boolean {
+    const tileFilter = { layer: layerBit(TILE_LAYER), mask: maskBits(defaultMask(TILE_LAYER)) };
+    return filtersCollide(getCollisionFilter(collider), tileFilter);
   }
   
   /**
-   * Check and resolve collisions between entities
+   * Move a bullet along its velocity, stopping at the first wall or collider in
+   * its path instead of passing through; it slides along walls for the rest of the move
    */
-  static checkCollisions(entities: Entity[]): void {
-    const collidableEntities = entities.filter(e => 
-      e.active && e.hasComponent('transform') && e.hasComponent('collider')
-    );
+  private static moveContinuous(entity: Entity, dt: number, tilemap?: Tilemap): void {
+    const transform = entity.getComponent('transform');
+    const physics = entity.getComponent('physics');
+    if (!transform || !physics) return;
     
-    for (let i = 0; i < collidableEntities.length; i++) {
-      for (let j = i + 1; j < collidableEntities.length; j++) {
-        const entityA = collidableEntities[i];
-        const entityB = collidableEntities[j];
+    let remaining = { x: physics.velocity.x * dt, y: physics.velocity.y * dt };
+    for (let i = 0; i < MAX_SWEEPS && (remaining.x !== 0 || remaining.y !== 0); i++) {
+      const hit = this.sweep(entity, remaining, tilemap);
+      if (!hit) {
+        transform.position.x += remaining.x;
+        transform.position.y += remaining.y;
+        break;
+      }
+      
+      const { time, normal } = hit;
+      const skin = hit.entity ? -CONTACT_SKIN : CONTACT_SKIN;
+      transform.position.x += remaining.x * time + normal.x * skin;
+      transform.position.y += remaining.y * time + normal.y * skin;
+      
+      this.bounce(physics, normal);
+      if (hit.entity) break;
+      
+      // the rest of the move is deflected the same way
+      const rest = { x: remaining.x * (1 - time), y: remaining.y * (1 - time) };
+      const restInto = Math.min(0, rest.x * normal.x + rest.y * normal.y) * (1 + (physics.restitution ?? 0));
+      remaining = { x: rest.x - normal.x * restInto, y: rest.y - normal.y * restInto };
+    }
+    this.refresh(entity);
+  }
+  
+  /**
+   * First wall or solid collider an entity would hit moving by delta (world
+   * space), with the time of impact and surface normal. Circles are swept as
+   * circles, other shapes by their bounds.
+   */
+  static sweep(entity: Entity, delta: Vector2, tilemap?: Tilemap): SweepResult | null {
+    const shape = getWorldShape(entity);
+    const collider = entity.getComponent('collider');
+    if (!shape || !collider) return null;
+    
+    return this.cast(shape, delta, this.hitsTiles(collider) ? tilemap : undefined, {
+      entities: collider.isTrigger ? undefined : entity.manager ?? undefined,
+      mask: getCollisionFilter(collider).mask,
+      accept: other => other !== entity && this.canCollide(entity, other) && !other.getComponent('collider')?.isTrigger,
+    });
+  }
+  
+  /**
+   * First wall or collider a shape would hit moving by delta, with the contact
+   * point. Circles are swept as circles, other shapes by their bounds.
+   */
+  static shapeCast(entities: EntityManager, shape: WorldShape, delta: Vector2, options: QueryOptions = {}): QueryHit | null {
+    const hit = this.cast(shape, delta, options.tilemap, {
+      entities,
+      mask: options.layers ? maskBits(options.layers) : undefined,
+      accept: other => this.matchesQuery(other, options),
+    });
+    if (!hit) return null;
+    
+    const moved: WorldShape = {
+      points: shape.points.map(p => ({ x: p.x + delta.x * hit.time, y: p.y + delta.y * hit.time })),
+      radius: shape.radius,
+    };
+    return {
+      entity: hit.entity,
+      point: support(moved, { x: -hit.normal.x, y: -hit.normal.y }),
+      normal: hit.normal,
+      distance: Math.sqrt(delta.x * delta.x + delta.y * delta.y) * hit.time,
+    };
+  }
+  
+  /**
+   * Sweep a shape against solid tiles and the broadphase colliders targets accepts
+   */
+  private static cast(shape: WorldShape, delta: Vector2, tilemap: Tilemap | undefined, targets: CastTargets): SweepResult | null {
+    const bounds = getShapeBounds(shape);
+    const circle = shape.points.length === 1 ? shape.points[0] : null;
+    const against = (target: AABB): SweepHit | null =>
+      circle ? sweepCircle(circle, shape.radius, delta, target) : sweepAABB(bounds, delta, target);
+    const swept: AABB = {
+      x: bounds.x + Math.min(0, delta.x),
+      y: bounds.y + Math.min(0, delta.y),
+      width: bounds.width + Math.abs(delta.x),
+      height: bounds.height + Math.abs(delta.y),
+    };
+    
+    const hits: SweepResult[] = [];
+    if (tilemap) {
+      for (const tile of tilemap.getSolidTiles(swept)) {
+        const hit = against(tile);
+        if (hit) hits.push(hit);
+      }
+    }
+    
+    if (targets.entities) {
+      for (const other of this.getBroadphase(targets.entities).queryAABB(swept, targets.mask)) {
+        const otherShape = getWorldShape(other);
+        if (!other.active || !otherShape || !targets.accept(other)) continue;
         
-        if (this.isColliding(entityA, entityB)) {
-          const colliderA = entityA.getComponent<ColliderComponent>('collider');
-          const colliderB = entityB.getComponent<ColliderComponent>('collider');
-          
-          // Call collision callbacks
-          if (colliderA?.onCollision) {
-            colliderA.onCollision(entityB);
-          }
-          if (colliderB?.onCollision) {
-            colliderB.onCollision(entityA);
-          }
-          
-          // Resolve collision if not triggers
-          if (!colliderA?.isTrigger && !colliderB?.isTrigger) {
-            this.resolveCollision(entityA, entityB);
-          }
-        }
+        const otherCircle = otherShape.points.length === 1 ? otherShape.points[0] : null;
+        const hit = circle && otherCircle
+          ? sweepCircleCircle(circle, shape.radius, delta, otherCircle, otherShape.radius)
+          : against(getShapeBounds(otherShape));
+        if (hit) hits.push({ ...hit, entity: other });
       }
     }
+    
+    return this.earliest(hits);
   }
   
   /**
-   * Check if two entities are colliding (AABB)
+   * First wall or collider along a ray from origin, up to maxDistance (which may
+   * be Infinity). Colliders are hit on their actual shapes; anything the ray
+   * starts inside is passed through. Only grid cells the ray crosses are searched.
    */
-  static isColliding(entityA: Entity, entityB: Entity): boolean {
-    const transformA = entityA.getComponent<TransformComponent>('transform');
-    const transformB = entityB.getComponent<TransformComponent>('transform');
-    const colliderA = entityA.getComponent<ColliderComponent>('collider');
-    const colliderB = entityB.getComponent<ColliderComponent>('collider');
+  static raycast(
+    entities: EntityManager,
+    origin: Vector2,
+    direction: Vector2,
+    maxDistance: number,
+    options: QueryOptions = {}
+  ): QueryHit | null {
+    const dir = this.direction({ x: 0, y: 0 }, direction);
+    // also rejects NaN
+    if ((dir.x === 0 && dir.y === 0) || !(maxDistance > 0)) return null;
+    
+    const broadphase = this.getBroadphase(entities);
+    const { tilemap } = options;
+    let reach = maxDistance;
+    if (!Number.isFinite(reach)) {
+      // far enough to pass everything there is to hit
+      const extents = [broadphase.getExtent(), tilemap ? { x: 0, y: 0, width: tilemap.width, height: tilemap.height } : null];
+      reach = 0;
+      for (const box of extents) {
+        if (!box) continue;
+        for (const x of [box.x, box.x + box.width]) {
+          for (const y of [box.y, box.y + box.height]) {
+            reach = Math.max(reach, this.distance(origin, { x, y }) + 1);
+          }
+        }
+      }
+      if (reach === 0) return null;
+    }
     
-    if (!transformA || !transformB || !colliderA || !colliderB) {
-      return false;
+    const delta = { x: dir.x * reach, y: dir.y * reach };
+    const hits: SweepResult[] = [];
+    if (tilemap) {
+      // tiles come in order along the ray, so the first solid one hit is the nearest
+      forEachCellOnRay(origin, delta, tilemap.tileSize, (col, row) => {
+        const hit = tilemap.isSolid(col, row) ? rayBox(origin, delta, tilemap.getTileBounds(col, row)) : null;
+        if (hit) hits.push(hit);
+        return hit !== null;
+      });
     }
     
-    const aabbA: AABB = {
-      x: transformA.position.x,
-      y: transformA.position.y,
-      width: colliderA.width,
-      height: colliderA.height,
-    };
+    const mask = options.layers ? maskBits(options.layers) : undefined;
+    for (const other of broadphase.queryRay(origin, delta, mask)) {
+      const shape = getWorldShape(other);
+      if (!other.active || !shape || !this.matchesQuery(other, options)) continue;
+      
+      const hit = rayShape(origin, delta, shape);
+      if (hit) hits.push({ ...hit, entity: other });
+    }
     
-    const aabbB: AABB = {
-      x: transformB.position.x,
-      y: transformB.position.y,
-      width: colliderB.width,
-      height: colliderB.height,
+    const first = this.earliest(hits);
+    if (!first) return null;
+    return {
+      entity: first.entity,
+      point: { x: origin.x + delta.x * first.time, y: origin.y + delta.y * first.time },
+      normal: first.normal,
+      distance: reach * first.time,
     };
+  }
+  
+  /**
+   * Whether nothing blocks a straight line between two points or entity centers.
+   * Walls block it, and so do colliders on the wall layer unless layers says otherwise.
+   */
+  static lineOfSight(
+    entities: EntityManager,
+    from: Entity | Vector2,
+    to: Entity | Vector2,
+    options: QueryOptions = {}
+  ): boolean {
+    const a = this.centerOf(from);
+    const b = this.centerOf(to);
+    if (!a || !b) return false;
+    
+    const distance = this.distance(a, b);
+    if (distance === 0) return true;
     
-    return (
-      aabbA.x < aabbB.x + aabbB.width &&
-      aabbA.x + aabbA.width > aabbB.x &&
-      aabbA.y < aabbB.y + aabbB.height &&
-      aabbA.y + aabbA.height > aabbB.y
-    );
+    const ignore = [...(options.ignore ?? [])];
+    for (const end of [from, to]) {
+      if (end instanceof Entity) ignore.push(end);
+    }
+    const direction = { x: b.x - a.x, y: b.y - a.y };
+    return this.raycast(entities, a, direction, distance, { ...options, layers: options.layers ?? [TILE_LAYER], ignore }) === null;
   }
   
   /**
-   * Resolve collision between two entities
+   * Active entities whose actual collider shapes overlap a circle (touching
+   * doesn't count), in broadphase order
    */
-  static resolveCollision(entityA: Entity, entityB: Entity): void {
-    const transformA = entityA.getComponent<TransformComponent>('transform');
-    const transformB = entityB.getComponent<TransformComponent>('transform');
-    const physicsA = entityA.getComponent<PhysicsComponent>('physics');
-    const physicsB = entityB.getComponent<PhysicsComponent>('physics');
-    const colliderA = entityA.getComponent<ColliderComponent>('collider');
-    const colliderB = entityB.getComponent<ColliderComponent>('collider');
-    
-    if (!transformA || !transformB || !colliderA || !colliderB) return;
-    
-    // Calculate overlap
-    const overlapX = Math.min(
-      transformA.position.x + colliderA.width - transformB.position.x,
-      transformB.position.x + colliderB.width - transformA.position.x
-    );
-    
-    const overlapY = Math.min(
-      transformA.position.y + colliderA.height - transformB.position.y,
-      transformB.position.y + colliderB.height - transformA.position.y
-    );
-    
-    // Separate on the axis with smallest overlap
-    if (overlapX < overlapY) {
-      const separationX = overlapX / 2;
-      if (transformA.position.x < transformB.position.x) {
-        transformA.position.x -= separationX;
-        transformB.position.x += separationX;
-      } else {
-        transformA.position.x += separationX;
-        transformB.position.x -= separationX;
-      }
+  static overlapCircle(entities: EntityManager, center: Vector2, radius: number, options: QueryOptions = {}): Entity[] {
+    const circle: WorldShape = { points: [center], radius };
+    return this.queryCircle(entities, center, radius, options.layers).filter(other => {
+      const shape = getWorldShape(other);
+      return shape !== null && this.matchesQuery(other, options) && collideShapes(circle, shape) !== null;
+    });
+  }
+  
+  private static matchesQuery(entity: Entity, options: QueryOptions): boolean {
+    if (options.ignore?.includes(entity)) return false;
+    return options.includeTriggers === true || !entity.getComponent('collider')?.isTrigger;
+  }
+  
+  private static earliest(hits: SweepResult[]): SweepResult | null {
+    return hits.reduce<SweepResult | null>((first, hit) => (!first || hit.time < first.time ? hit : first), null);
+  }
+  
+  /**
+   * Middle of an entity's collider, or its position without one
+   */
+  private static centerOf(target: Entity | Vector2): Vector2 | null {
+    if (!(target instanceof Entity)) return target;
+    
+    const box = this.getAABB(target);
+    if (box) return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    return getWorldTransform(target)?.position ?? null;
+  }
+  
+  /**
+   * Check and resolve collisions between overlapping entities, found through the
+   * broadphase. Contacts are tracked across calls: each pair gets enter on its
+   * first step, stay on later ones and exit once apart, through the colliders'
+   * callbacks and, when given a bus, 'collision:enter'/'stay'/'exit'. 'collision'
+   * and onCollision fire on every step a pair overlaps.
+   */
+  static checkCollisions(entities: EntityManager, events?: EventBus): void {
+    const contacts = this.getContacts(entities);
+    // entities removed since the last check end their contacts first, in case they're back
+    for (const [entityA, entityB] of contacts.takeForgotten()) {
+      this.reportContact(entityA, entityB, 'exit', events);
+    }
+    
+    this.getBroadphase(entities).forEachPair((entityA, entityB) => {
+      if (!entityA.active || !entityB.active || !this.isColliding(entityA, entityB)) return;
       
-      // Stop horizontal velocity
-      if (physicsA) physicsA.velocity.x = 0;
-      if (physicsB) physicsB.velocity.x = 0;
-    } else {
-      const separationY = overlapY / 2;
-      if (transformA.position.y < transformB.position.y) {
-        transformA.position.y -= separationY;
-        transformB.position.y += separationY;
-      } else {
-        transformA.position.y += separationY;
-        transformB.position.y -= separationY;
+      const colliderA = entityA.getComponent('collider');
+      const colliderB = entityB.getComponent('collider');
+      
+      // Call collision callbacks
+      if (colliderA?.onCollision) {
+        colliderA.onCollision(entityB);
+      }
+      if (colliderB?.onCollision) {
+        colliderB.onCollision(entityA);
       }
+      events?.emit('collision', { a: entityA, b: entityB });
+      this.reportContact(entityA, entityB, contacts.touch(entityA, entityB) ? 'enter' : 'stay', events);
       
-      // Stop vertical velocity
-      if (physicsA) physicsA.velocity.y = 0;
-      if (physicsB) physicsB.velocity.y = 0;
+      // Resolve collision if not triggers
+      if (!colliderA?.isTrigger && !colliderB?.isTrigger) {
+        this.resolveCollision(entityA, entityB);
+        this.refresh(entityA);
+        this.refresh(entityB);
+      }
+    });
+    
+    // bodies pushed apart last step rest exactly against each other; keep those in contact
+    for (const [entityA, entityB] of contacts.untouched()) {
+      if (!this.isTouching(entityA, entityB)) continue;
+      contacts.touch(entityA, entityB);
+      this.reportContact(entityA, entityB, 'stay', events);
+    }
+    
+    for (const [entityA, entityB] of contacts.step()) {
+      this.reportContact(entityA, entityB, 'exit', events);
+    }
+  }
+  
+  /**
+   * Contact pairs of a manager's colliders, as of the last checkCollisions().
+   * Entities that leave the manager lose their contacts, which exit on the next check.
+   */
+  static getContacts(entities: EntityManager): ContactTracker<Entity> {
+    const existing = this.contacts.get(entities);
+    if (existing) return existing;
+    
+    const contacts = new ContactTracker<Entity>();
+    this.contacts.set(entities, contacts);
+    entities.events.on('entity:removed', ({ entity }) => contacts.forget(entity));
+    return contacts;
+  }
+  
+  private static reportContact(entityA: Entity, entityB: Entity, phase: 'enter' | 'stay' | 'exit', events?: EventBus): void {
+    const colliderA = entityA.getComponent('collider');
+    const colliderB = entityB.getComponent('collider');
+    switch (phase) {
+      case 'enter':
+        colliderA?.onCollisionEnter?.(entityB);
+        colliderB?.onCollisionEnter?.(entityA);
+        events?.emit('collision:enter', { a: entityA, b: entityB });
+        break;
+      case 'stay':
+        colliderA?.onCollisionStay?.(entityB);
+        colliderB?.onCollisionStay?.(entityA);
+        events?.emit('collision:stay', { a: entityA, b: entityB });
+        break;
+      case 'exit':
+        colliderA?.onCollisionExit?.(entityB);
+        colliderB?.onCollisionExit?.(entityA);
+        events?.emit('collision:exit', { a: entityA, b: entityB });
+        break;
+    }
+  }
+  
+  /**
+   * Whether two active entities overlap or lie within CONTACT_SKIN of each other
+   */
+  private static isTouching(entityA: Entity, entityB: Entity): boolean {
+    if (!entityA.active || !entityB.active || !this.canCollide(entityA, entityB)) return false;
+    
+    const shapeA = getWorldShape(entityA);
+    const shapeB = getWorldShape(entityB);
+    if (!shapeA || !shapeB) return false;
+    return collideShapes({ points: shapeA.points, radius: shapeA.radius + CONTACT_SKIN }, shapeB) !== null;
+  }
+  
+  /**
+   * Active entities whose colliders overlap a world-space box, optionally only on some layers
+   */
+  static queryAABB(entities: EntityManager, region: AABB, layers?: string[]): Entity[] {
+    profiler.allocate('entityArrays');
+    const mask = layers ? maskBits(layers) : undefined;
+    return this.getBroadphase(entities).queryAABB(region, mask).filter(e => e.active);
+  }
+  
+  /**
+   * Active entities whose colliders touch a world-space circle, optionally only on some layers
+   */
+  static queryCircle(entities: EntityManager, center: Vector2, radius: number, layers?: string[]): Entity[] {
+    profiler.allocate('entityArrays');
+    const mask = layers ? maskBits(layers) : undefined;
+    return this.getBroadphase(entities).queryCircle(center, radius, mask).filter(e => e.active);
+  }
+  
+  /**
+   * Spatial hash of a manager's colliders. Positions are picked up on add, in
+   * update() and on refresh(); entities moved elsewhere need a refresh() to be found.
+   */
+  static getBroadphase(entities: EntityManager): SpatialHash<Entity> {
+    const existing = this.broadphases.get(entities);
+    if (existing) return existing;
+    
+    const hash = new SpatialHash<Entity>(config.physics.cellSize);
+    this.broadphases.set(entities, hash);
+    entities.getAll().forEach(entity => this.refresh(entity));
+    
+    const onComponentChange = ({ entity, component }: EntityManagerEvents['component:added']) => {
+      if (component.type === 'transform' || component.type === 'collider') {
+        this.refresh(entity);
+      }
+    };
+    entities.events.on('entity:added', ({ entity }) => this.refresh(entity));
+    entities.events.on('entity:removed', ({ entity }) => hash.remove(entity));
+    entities.events.on('component:added', onComponentChange);
+    entities.events.on('component:removed', onComponentChange);
+    return hash;
+  }
+  
+  /**
+   * Re-file an entity in its manager's broadphase, e.g. after teleporting it
+   */
+  static refresh(entity: Entity): void {
+    const hash = entity.manager ? this.broadphases.get(entity.manager) : undefined;
+    if (!hash) return;
+    
+    const box = this.getAABB(entity);
+    const collider = entity.getComponent('collider');
+    if (box && collider) {
+      const filter = getCollisionFilter(collider);
+      hash.update(entity, box, filter.layer, filter.mask);
+    } else {
+      hash.remove(entity);
     }
   }
   
+  /**
+   * World-space collider box, or null without a transform and collider
+   */
+  static getAABB(entity: Entity): AABB | null {
+    const shape = getWorldShape(entity);
+    return shape ? getShapeBounds(shape) : null;
+  }
+  
+  /**
+   * Whether two entities' collision layers and masks let them interact
+   */
+  static canCollide(entityA: Entity, entityB: Entity): boolean {
+    const colliderA = entityA.getComponent('collider');
+    const colliderB = entityB.getComponent('collider');
+    if (!colliderA || !colliderB) return false;
+    
+    return filtersCollide(getCollisionFilter(colliderA), getCollisionFilter(colliderB));
+  }
+  
+  /**
+   * How two entities' collider shapes overlap, honoring collision layers; the
+   * normal points from A towards B. Null when they don't touch.
+   */
+  static getContact(entityA: Entity, entityB: Entity): Contact | null {
+    if (!this.canCollide(entityA, entityB)) return null;
+    
+    const shapeA = getWorldShape(entityA);
+    const shapeB = getWorldShape(entityB);
+    if (!shapeA || !shapeB) return null;
+    
+    // cheap bounds check before the separating axis test
+    if (!overlaps(getShapeBounds(shapeA), getShapeBounds(shapeB))) return null;
+    return collideShapes(shapeA, shapeB);
+  }
+  
+  /**
+   * Check if two entities' collider shapes overlap, honoring collision layers
+   */
+  static isColliding(entityA: Entity, entityB: Entity): boolean {
+    return this.getContact(entityA, entityB) !== null;
+  }
+  
+  /**
+   * 1 / mass; 0 for static bodies and entities without physics, which nothing can push
+   */
+  static getInverseMass(entity: Entity): number {
+    const physics = entity.getComponent('physics');
+    if (!physics || physics.isStatic || physics.mass <= 0) return 0;
+    return 1 / physics.mass;
+  }
+  
+  /**
+   * Resolve collision between two entities with impulses: the overlap and the
+   * change in velocity are shared by inverse mass, so heavier bodies give way
+   * less. Restitution (the bouncier body's) sets how much approach speed is
+   * returned; friction (the geometric mean of the two) resists sliding.
+   */
+  static resolveCollision(entityA: Entity, entityB: Entity): void {
+    const transformA = entityA.getComponent('transform');
+    const transformB = entityB.getComponent('transform');
+    const physicsA = entityA.getComponent('physics');
+    const physicsB = entityB.getComponent('physics');
+    const contact = this.getContact(entityA, entityB);
+    
+    if (!transformA || !transformB || !contact) return;
+    
+    const inverseA = this.getInverseMass(entityA);
+    const inverseB = this.getInverseMass(entityB);
+    const inverseTotal = inverseA + inverseB;
+    if (inverseTotal === 0) return;
+    
+    // Push the overlap apart along the contact normal (moves local positions,
+    // which matches world space for roots and unrotated, unscaled parents)
+    const { normal, depth } = contact;
+    transformA.position.x -= normal.x * depth * inverseA / inverseTotal;
+    transformA.position.y -= normal.y * depth * inverseA / inverseTotal;
+    transformB.position.x += normal.x * depth * inverseB / inverseTotal;
+    transformB.position.y += normal.y * depth * inverseB / inverseTotal;
+    
+    const velocityA = physicsA?.velocity ?? { x: 0, y: 0 };
+    const velocityB = physicsB?.velocity ?? { x: 0, y: 0 };
+    const applyImpulse = (impulse: Vector2): void => {
+      velocityA.x -= impulse.x * inverseA;
+      velocityA.y -= impulse.y * inverseA;
+      velocityB.x += impulse.x * inverseB;
+      velocityB.y += impulse.y * inverseB;
+    };
+    
+    // Already separating: nothing to stop
+    const relative = { x: velocityB.x - velocityA.x, y: velocityB.y - velocityA.y };
+    const approach = relative.x * normal.x + relative.y * normal.y;
+    if (approach >= 0) return;
+    
+    const restitution = Math.max(physicsA?.restitution ?? 0, physicsB?.restitution ?? 0);
+    const normalImpulse = -(1 + restitution) * approach / inverseTotal;
+    applyImpulse({ x: normal.x * normalImpulse, y: normal.y * normalImpulse });
+    
+    // Friction opposes sliding along the contact, up to mu times the normal impulse
+    const after = { x: velocityB.x - velocityA.x, y: velocityB.y - velocityA.y };
+    const along = after.x * normal.x + after.y * normal.y;
+    const tangent = this.direction({ x: 0, y: 0 }, { x: after.x - normal.x * along, y: after.y - normal.y * along });
+    const friction = Math.sqrt((physicsA?.friction ?? 0) * (physicsB?.friction ?? 0));
+    const slide = after.x * tangent.x + after.y * tangent.y;
+    const frictionImpulse = Math.max(-slide / inverseTotal, -friction * normalImpulse);
+    applyImpulse({ x: tangent.x * frictionImpulse, y: tangent.y * frictionImpulse });
+  }
+  
   /**
    * Get distance between two positions
    */
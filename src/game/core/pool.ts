@@ -0,0 +1,213 @@
+/**
+ * Entity Pool
+ * Reuses entities and their component objects for frequently spawned prefabs
+ */
+
+import { Entity, EntityFactory, EntityManager, Component, TransformComponent } from './entity';
+import type { CommandBuffer } from './commands';
+import prefabs, { PrefabInstance } from './prefabs';
+import profiler from './profiler';
+
+export interface PoolStats {
+  created: number; // entities built because the pool was empty
+  reused: number; // acquisitions served from the pool
+  released: number;
+  available: number; // idle entities ready for reuse
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reset `target` to match `source` in place, reusing nested objects and arrays
+ */
+function resetInPlace(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const key of Object.keys(target)) {
+    if (!(key in source)) delete target[key];
+  }
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    if (isObject(current) && isObject(value)) {
+      resetInPlace(current, value);
+    } else if (Array.isArray(current) && Array.isArray(value)) {
+      current.length = 0;
+      current.push(...value);
+    } else if (isObject(value)) {
+      const copy = {};
+      resetInPlace(copy, value);
+      target[key] = copy;
+    } else {
+      target[key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+}
+
+export class EntityPool {
+  private entities: EntityManager;
+  private idle: Map<string, Entity[]> = new Map();
+  private kinds: WeakMap<Entity, string> = new WeakMap();
+  // prefab data captured on first use, so reuse doesn't allocate fresh components
+  private templates: Map<string, PrefabInstance> = new Map();
+  private stats: Map<string, PoolStats> = new Map();
+
+  constructor(entities: EntityManager) {
+    this.entities = entities;
+  }
+
+  /**
+   * Pre-create idle entities so the first spawns don't allocate
+   */
+  warm(prefab: string, count: number): void {
+    const idle = this.getIdle(prefab);
+    const stats = this.getStats(prefab);
+    while (idle.length < count) {
+      const entity = EntityFactory.create(prefab, 0, 0);
+      entity.active = false;
+      this.kinds.set(entity, prefab);
+      idle.push(entity);
+      stats.created++;
+    }
+    stats.available = idle.length;
+  }
+
+  /**
+   * Take an entity of a prefab (reused when possible), place it and add it to the
+   * manager, or queue the add on a command buffer
+   */
+  acquire(prefab: string, x: number, y: number, commands?: CommandBuffer): Entity {
+    const idle = this.getIdle(prefab);
+    const stats = this.getStats(prefab);
+    let entity = idle.pop();
+
+    if (entity) {
+      this.reset(entity, prefab);
+      stats.reused++;
+    } else {
+      entity = EntityFactory.create(prefab, 0, 0);
+      this.kinds.set(entity, prefab);
+      stats.created++;
+      profiler.allocate('entities');
+    }
+
+    const transform = entity.getComponent('transform');
+    if (transform) {
+      transform.position.x = x;
+      transform.position.y = y;
+    }
+    entity.active = true;
+    if (commands) {
+      commands.spawn(entity);
+    } else {
+      this.entities.add(entity);
+    }
+
+    stats.available = idle.length;
+    profiler.count(`pool.${prefab}`, idle.length);
+    return entity;
+  }
+
+  /**
+   * Return an entity to its pool; entities the pool didn't create are just removed
+   */
+  release(entity: Entity): void {
+    const prefab = this.kinds.get(entity);
+    if (!prefab) {
+      this.entities.remove(entity.id);
+      return;
+    }
+
+    this.entities.detach(entity.id);
+    entity.active = false;
+
+    const idle = this.getIdle(prefab);
+    if (!idle.includes(entity)) {
+      idle.push(entity);
+      const stats = this.getStats(prefab);
+      stats.released++;
+      stats.available = idle.length;
+    }
+    profiler.count(`pool.${prefab}`, idle.length);
+  }
+
+  getStats(prefab: string): PoolStats {
+    let stats = this.stats.get(prefab);
+    if (!stats) {
+      stats = { created: 0, reused: 0, released: 0, available: 0 };
+      this.stats.set(prefab, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Stats for every prefab the pool has seen
+   */
+  getAllStats(): Record<string, PoolStats> {
+    const all: Record<string, PoolStats> = {};
+    this.stats.forEach((stats, prefab) => {
+      all[prefab] = stats;
+    });
+    return all;
+  }
+
+  /**
+   * Drop idle entities and cached prefab data (e.g. after prefabs or config change)
+   */
+  clear(): void {
+    this.idle.clear();
+    this.templates.clear();
+    this.stats.clear();
+  }
+
+  private getIdle(prefab: string): Entity[] {
+    let idle = this.idle.get(prefab);
+    if (!idle) {
+      idle = [];
+      this.idle.set(prefab, idle);
+    }
+    return idle;
+  }
+
+  /**
+   * Put every component back to the prefab's values, reusing the objects
+   */
+  private reset(entity: Entity, prefab: string): void {
+    let template = this.templates.get(prefab);
+    if (!template) {
+      template = prefabs.instantiate(prefab);
+      for (const data of template.components) {
+        if (data.type === 'transform') {
+          (data as TransformComponent).position = { x: 0, y: 0 };
+        }
+      }
+      this.templates.set(prefab, template);
+    }
+
+    const kept = new Set<string>(['tags']);
+    for (const data of template.components) {
+      kept.add(data.type);
+      const component = entity.components.get(data.type);
+      if (component) {
+        resetInPlace(component as unknown as Record<string, unknown>, data as unknown as Record<string, unknown>);
+      } else {
+        const copy = {};
+        resetInPlace(copy, data as unknown as Record<string, unknown>);
+        entity.addComponent(copy as Component);
+      }
+    }
+    // components added while the entity was in use don't survive reuse
+    for (const type of Array.from(entity.components.keys())) {
+      if (!kept.has(type)) entity.removeComponent(type);
+    }
+    // images aren't part of the template
+    EntityFactory.bindSprite(entity);
+
+    const tags = entity.getComponent('tags');
+    if (tags) {
+      tags.tags.length = 0;
+      tags.tags.push(...template.tags);
+    } else if (template.tags.length > 0) {
+      entity.addTag(...template.tags);
+    }
+  }
+}
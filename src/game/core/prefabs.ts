@@ -0,0 +1,325 @@
+/**
+ * Prefabs
+ * Entity archetypes declared in JSON, with inheritance and per-instance overrides
+ */
+
+import type { ColliderShape, Component, ComponentType, ComponentTypes } from './entity';
+import { findShapeProblems } from './shapes';
+import { config, getConfig } from '../config';
+import defaultPrefabs from '../data/prefabs.json';
+
+// string values starting with this are read from config when instantiating, e.g. "$config:enemy.size"
+const CONFIG_REF = '$config:';
+
+export type ComponentData = Record<string, unknown>;
+
+/**
+ * One entry of a prefab JSON file
+ */
+export interface PrefabDefinition {
+  extends?: string; // parent prefab; components merge over the parent's
+  id?: string; // fixed entity id, e.g. 'player'; not inherited
+  tags?: string[]; // added to the parent's tags
+  components?: Record<string, ComponentData>;
+}
+
+/**
+ * Per-instance component values, merged over the prefab's
+ */
+export type PrefabOverrides = {
+  [K in ComponentType]?: Partial<Omit<ComponentTypes[K], 'type'>>;
+};
+
+/**
+ * Everything needed to build an entity from a prefab
+ */
+export interface PrefabInstance {
+  id?: string;
+  tags: string[];
+  components: Component[];
+}
+
+interface ResolvedPrefab {
+  id?: string;
+  tags: string[];
+  components: Record<string, ComponentData>;
+}
+
+// fields each built-in component must have once inheritance is applied
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  transform: ['rotation', 'scale'],
+  physics: ['velocity', 'acceleration', 'mass', 'friction', 'damping'],
+  sprite: ['width', 'height', 'color'],
+  collider: ['width', 'height', 'isTrigger'],
+  health: ['current', 'max'],
+};
+
+type FieldType = 'number' | 'string' | 'boolean' | 'object';
+
+// expected types of built-in component fields, checked after $config references resolve
+const FIELD_TYPES: Record<string, Record<string, FieldType>> = {
+  transform: { rotation: 'number', scale: 'object' },
+  physics: {
+    velocity: 'object',
+    acceleration: 'object',
+    mass: 'number',
+    friction: 'number',
+    damping: 'number',
+    restitution: 'number',
+    isStatic: 'boolean',
+    bullet: 'boolean',
+  },
+  sprite: { width: 'number', height: 'number', color: 'string', spriteName: 'string' },
+  collider: { width: 'number', height: 'number', isTrigger: 'boolean', layer: 'string' },
+  health: { current: 'number', max: 'number' },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge; nested objects merge, everything else (arrays included) is replaced
+ */
+function merge(base: ComponentData, patch: ComponentData): ComponentData {
+  const result: ComponentData = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    const current = result[key];
+    result[key] = isObject(current) && isObject(value) ? merge(current, value) : value;
+  }
+  return result;
+}
+
+/**
+ * Deep copy with $config references replaced by their current values
+ */
+function resolveRefs(value: unknown): unknown {
+  if (typeof value === 'string' && value.startsWith(CONFIG_REF)) {
+    return getConfig(value.slice(CONFIG_REF.length));
+  }
+  if (Array.isArray(value)) {
+    return value.map(resolveRefs);
+  }
+  if (isObject(value)) {
+    const copy: ComponentData = {};
+    for (const [key, field] of Object.entries(value)) {
+      copy[key] = resolveRefs(field);
+    }
+    return copy;
+  }
+  return value;
+}
+
+const SHAPE_KINDS = ['box', 'circle', 'polygon', 'capsule'];
+
+function isPoint(value: unknown): boolean {
+  return isObject(value) && typeof value.x === 'number' && typeof value.y === 'number';
+}
+
+function findBadShape(shape: unknown, path: string, errors: string[]): void {
+  if (!isObject(shape) || !SHAPE_KINDS.includes(shape.kind as string)) {
+    errors.push(`${path}.kind must be one of ${SHAPE_KINDS.join(', ')}`);
+    return;
+  }
+  if ('radius' in shape && !(typeof shape.radius === 'number' && shape.radius > 0)) {
+    errors.push(`${path}.radius must be a positive number`);
+  }
+  for (const field of ['center', 'a', 'b']) {
+    if (field in shape && !isPoint(shape[field])) {
+      errors.push(`${path}.${field} must be a point`);
+    }
+  }
+  if (shape.kind === 'polygon') {
+    if (!Array.isArray(shape.points) || !shape.points.every(isPoint)) {
+      errors.push(`${path}.points must be an array of points`);
+    } else {
+      findShapeProblems(shape as ColliderShape).forEach(problem => errors.push(`${path}: ${problem}`));
+    }
+  }
+}
+
+/**
+ * Collider values that would otherwise only fail once spawned: layer names and the shape
+ */
+function findBadCollider(data: ComponentData, path: string, errors: string[]): void {
+  const layers = config.collision.layers;
+  const layer = resolveRefs(data.layer);
+  if (typeof layer === 'string' && !layers.includes(layer)) {
+    errors.push(`${path}.layer: unknown collision layer "${layer}"`);
+  }
+  if ('mask' in data) {
+    const mask = resolveRefs(data.mask);
+    if (!Array.isArray(mask) || mask.some(name => typeof name !== 'string')) {
+      errors.push(`${path}.mask must be an array of layer names`);
+    } else {
+      mask
+        .filter(name => !layers.includes(name))
+        .forEach(name => errors.push(`${path}.mask: unknown collision layer "${name}"`));
+    }
+  }
+  if ('shape' in data) {
+    findBadShape(resolveRefs(data.shape), `${path}.shape`, errors);
+  }
+}
+
+function findBadTypes(type: string, data: ComponentData, path: string, errors: string[]): void {
+  for (const [field, expected] of Object.entries(FIELD_TYPES[type] ?? {})) {
+    if (!(field in data)) continue;
+    const value = resolveRefs(data[field]);
+    // unknown $config references are reported by findBadRefs
+    if (value === undefined) continue;
+    const actual = isObject(value) ? 'object' : typeof value;
+    if (actual !== expected || (expected === 'number' && !Number.isFinite(value))) {
+      errors.push(`${path}.${field} must be ${expected === 'object' ? 'an' : 'a'} ${expected}`);
+    }
+  }
+}
+
+function findBadRefs(value: unknown, path: string, errors: string[]): void {
+  if (typeof value === 'string' && value.startsWith(CONFIG_REF)) {
+    if (getConfig(value.slice(CONFIG_REF.length)) === undefined) {
+      errors.push(`${path}: unknown config value "${value}"`);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => findBadRefs(item, `${path}[${i}]`, errors));
+  } else if (isObject(value)) {
+    for (const [key, field] of Object.entries(value)) {
+      findBadRefs(field, `${path}.${key}`, errors);
+    }
+  }
+}
+
+export class PrefabRegistry {
+  private prefabs: Map<string, ResolvedPrefab> = new Map();
+
+  /**
+   * Validate and add prefab definitions. Throws listing every problem found,
+   * leaving the registry unchanged. Definitions may extend already loaded prefabs.
+   */
+  load(definitions: unknown): void {
+    if (!isObject(definitions)) {
+      throw new Error('Prefab definitions must be an object of named prefabs');
+    }
+
+    const errors: string[] = [];
+    const loaded: Map<string, ResolvedPrefab> = new Map();
+    const visiting: Set<string> = new Set();
+
+    const resolve = (name: string): ResolvedPrefab | undefined => {
+      const done = loaded.get(name);
+      if (done) return done;
+      if (!(name in definitions)) return this.prefabs.get(name);
+
+      if (visiting.has(name)) {
+        errors.push(`Prefab "${name}": circular extends`);
+        return undefined;
+      }
+      visiting.add(name);
+      const prefab = this.resolveDefinition(name, definitions[name], resolve, errors);
+      visiting.delete(name);
+
+      if (prefab) loaded.set(name, prefab);
+      return prefab;
+    };
+
+    Object.keys(definitions).forEach(resolve);
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid prefabs:\n  ${errors.join('\n  ')}`);
+    }
+    loaded.forEach((prefab, name) => this.prefabs.set(name, prefab));
+  }
+
+  has(name: string): boolean {
+    return this.prefabs.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.prefabs.keys());
+  }
+
+  /**
+   * Fresh component data for a prefab, with config references resolved and overrides applied
+   */
+  instantiate(name: string, overrides: PrefabOverrides = {}): PrefabInstance {
+    const prefab = this.prefabs.get(name);
+    if (!prefab) {
+      throw new Error(`Unknown prefab: ${name}`);
+    }
+
+    const patches = overrides as Record<string, ComponentData | undefined>;
+    const components = Object.entries(prefab.components).map(([type, data]) => {
+      const values = merge(resolveRefs(data) as ComponentData, patches[type] ?? {});
+      return { ...values, type } as Component;
+    });
+
+    return { id: prefab.id, tags: [...prefab.tags], components };
+  }
+
+  private resolveDefinition(
+    name: string,
+    definition: unknown,
+    resolve: (name: string) => ResolvedPrefab | undefined,
+    errors: string[]
+  ): ResolvedPrefab | undefined {
+    const where = `Prefab "${name}"`;
+    if (!isObject(definition)) {
+      errors.push(`${where}: must be an object`);
+      return undefined;
+    }
+
+    const { extends: parentName, id, tags = [], components = {} } = definition as PrefabDefinition;
+    const count = errors.length;
+
+    if (id !== undefined && typeof id !== 'string') {
+      errors.push(`${where}: id must be a string`);
+    }
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      errors.push(`${where}: tags must be an array of strings`);
+    }
+    if (!isObject(components) || Object.values(components).some(data => !isObject(data))) {
+      errors.push(`${where}: components must map component types to objects`);
+    }
+
+    let parent: ResolvedPrefab | undefined;
+    if (parentName !== undefined) {
+      const before = errors.length;
+      parent = typeof parentName === 'string' ? resolve(parentName) : undefined;
+      // a parent that failed to load has already reported why
+      if (!parent && errors.length === before) {
+        errors.push(`${where}: extends unknown prefab "${parentName}"`);
+      }
+    }
+    if (errors.length > count) return undefined;
+
+    const merged: Record<string, ComponentData> = { ...parent?.components };
+    for (const [type, data] of Object.entries(components)) {
+      merged[type] = merge(merged[type] ?? {}, data);
+    }
+
+    for (const [type, data] of Object.entries(merged)) {
+      const missing = (REQUIRED_FIELDS[type] ?? []).filter(field => !(field in data));
+      if (missing.length > 0) {
+        errors.push(`${where}: ${type} is missing ${missing.join(', ')}`);
+      }
+      findBadRefs(data, `${where} ${type}`, errors);
+      findBadTypes(type, data, `${where} ${type}`, errors);
+      if (type === 'collider') {
+        findBadCollider(data, `${where} collider`, errors);
+      }
+    }
+
+    // ids are not inherited; they identify one specific entity
+    return {
+      id,
+      tags: Array.from(new Set([...(parent?.tags ?? []), ...tags])),
+      components: merged,
+    };
+  }
+}
+
+// Built-in prefabs from data/prefabs.json
+const prefabs = new PrefabRegistry();
+prefabs.load(defaultPrefabs);
+
+export default prefabs;
@@ -0,0 +1,233 @@
+/**
+ * Profiler
+ * Per-phase frame timings, entity counts and allocation counters with a frame-time graph
+ */
+
+import { config } from '../config';
+
+export const TRACE_VERSION = 1;
+
+/**
+ * Everything measured during one engine frame (all simulated ticks plus the render)
+ */
+export interface FrameSample {
+  frame: number;
+  total: number; // ms
+  ticks: number;
+  phases: Record<string, number>; // ms spent per system phase
+  counts: Record<string, number>; // e.g. live entities at the end of the frame
+  allocations: Record<string, number>; // GC-prone allocations by kind
+  heapUsed?: number; // bytes, where the runtime exposes it
+}
+
+export interface ProfilerTrace {
+  version: number;
+  averages: Record<string, number>;
+  frames: FrameSample[];
+}
+
+const PHASE_COLORS: Record<string, string> = {
+  input: '#9b59b6',
+  preUpdate: '#7f8c8d',
+  physics: '#3498db',
+  collision: '#e74c3c',
+  update: '#1abc9c',
+  ai: '#f39c12',
+  postUpdate: '#95a5a6',
+  render: '#2ecc71',
+  ui: '#f1c40f',
+};
+
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 60;
+const FRAME_BUDGET_MS = 1000 / 60;
+
+function readHeapUsed(): number | undefined {
+  // Chrome exposes performance.memory; node (headless runs) exposes process.memoryUsage
+  const memory = (performance as unknown as { memory?: { usedJSHeapSize: number } }).memory;
+  if (memory) return memory.usedJSHeapSize;
+
+  const proc = (globalThis as { process?: { memoryUsage?: () => { heapUsed: number } } }).process;
+  return proc?.memoryUsage?.().heapUsed;
+}
+
+export class Profiler {
+  enabled: boolean = false;
+  overlayVisible: boolean = false;
+  // clock in ms; replaceable for tests
+  now: () => number = () => performance.now();
+  private history: number;
+  private samples: FrameSample[] = [];
+  private current: FrameSample | null = null;
+  private frameStart: number = 0;
+  private frameCount: number = 0;
+
+  constructor(history: number) {
+    this.history = history;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.current = null;
+      this.overlayVisible = false;
+    }
+  }
+
+  /**
+   * Show or hide the overlay; does nothing while profiling is off
+   */
+  toggleOverlay(): void {
+    this.overlayVisible = this.enabled && !this.overlayVisible;
+  }
+
+  beginFrame(): void {
+    if (!this.enabled) return;
+    this.frameStart = this.now();
+    this.current = {
+      frame: this.frameCount++,
+      total: 0,
+      ticks: 0,
+      phases: {},
+      counts: {},
+      allocations: {},
+    };
+  }
+
+  endFrame(): void {
+    const sample = this.current;
+    if (!sample) return;
+
+    sample.total = this.now() - this.frameStart;
+    const heapUsed = readHeapUsed();
+    if (heapUsed !== undefined) sample.heapUsed = heapUsed;
+
+    this.samples.push(sample);
+    if (this.samples.length > this.history) {
+      this.samples.shift();
+    }
+    this.current = null;
+  }
+
+  tick(): void {
+    if (this.current) this.current.ticks++;
+  }
+
+  /**
+   * Add time spent in a phase to the current frame; ignored outside a frame
+   */
+  record(phase: string, ms: number): void {
+    if (!this.current) return;
+    this.current.phases[phase] = (this.current.phases[phase] ?? 0) + ms;
+  }
+
+  count(name: string, value: number): void {
+    if (!this.current) return;
+    this.current.counts[name] = value;
+  }
+
+  /**
+   * Note short-lived objects created in hot paths (arrays, vectors)
+   */
+  allocate(kind: string, amount: number = 1): void {
+    if (!this.current) return;
+    this.current.allocations[kind] = (this.current.allocations[kind] ?? 0) + amount;
+  }
+
+  getSamples(): FrameSample[] {
+    return this.samples;
+  }
+
+  /**
+   * Mean ms per frame for each phase, plus 'total'
+   */
+  getAverages(): Record<string, number> {
+    const averages: Record<string, number> = {};
+    if (this.samples.length === 0) return averages;
+
+    for (const sample of this.samples) {
+      averages.total = (averages.total ?? 0) + sample.total;
+      for (const [phase, ms] of Object.entries(sample.phases)) {
+        averages[phase] = (averages[phase] ?? 0) + ms;
+      }
+    }
+    for (const key of Object.keys(averages)) {
+      averages[key] /= this.samples.length;
+    }
+    return averages;
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.current = null;
+    this.frameCount = 0;
+  }
+
+  /**
+   * Serialize the recorded frames for offline analysis
+   */
+  exportTrace(): string {
+    const trace: ProfilerTrace = {
+      version: TRACE_VERSION,
+      averages: this.getAverages(),
+      frames: this.samples,
+    };
+    return JSON.stringify(trace);
+  }
+
+  /**
+   * Draw stacked per-phase frame times for recent frames, with averages underneath
+   */
+  renderOverlay(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+    if (!this.overlayVisible) return;
+
+    const scale = GRAPH_HEIGHT / (FRAME_BUDGET_MS * 2);
+    const barWidth = GRAPH_WIDTH / this.history;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x, y, GRAPH_WIDTH, GRAPH_HEIGHT + 70);
+
+    // one stacked bar per frame, newest on the right
+    const offset = this.history - this.samples.length;
+    this.samples.forEach((sample, i) => {
+      let top = y + GRAPH_HEIGHT;
+      for (const [phase, ms] of Object.entries(sample.phases)) {
+        const height = Math.min(ms * scale, top - y);
+        top -= height;
+        ctx.fillStyle = PHASE_COLORS[phase] ?? '#ffffff';
+        ctx.fillRect(x + (offset + i) * barWidth, top, barWidth, height);
+      }
+    });
+
+    // 60 FPS budget line
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(x, y + GRAPH_HEIGHT - FRAME_BUDGET_MS * scale, GRAPH_WIDTH, 1);
+
+    const averages = this.getAverages();
+    const latest = this.samples[this.samples.length - 1];
+    const phases = Object.keys(PHASE_COLORS)
+      .filter(phase => averages[phase] !== undefined)
+      .map(phase => `${phase} ${averages[phase].toFixed(2)}`);
+
+    // drawn directly rather than via RenderSystem, which reports its allocations here
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#00ff00';
+    ctx.fillText(`frame ${(averages.total ?? 0).toFixed(2)}ms`, x + 4, y + GRAPH_HEIGHT + 4);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(phases.slice(0, 5).join('  '), x + 4, y + GRAPH_HEIGHT + 20);
+    ctx.fillText(phases.slice(5).join('  '), x + 4, y + GRAPH_HEIGHT + 34);
+    if (latest) {
+      const allocations = Object.entries(latest.allocations).map(([kind, n]) => `${kind} ${n}`).join('  ');
+      ctx.fillText(`entities ${latest.counts.entities ?? 0}  ${allocations}`, x + 4, y + GRAPH_HEIGHT + 50);
+    }
+    ctx.restore();
+  }
+}
+
+// Singleton instance; the engine turns it on from config.debug.profiler
+const profiler = new Profiler(config.debug.profilerHistory);
+
+export default profiler;
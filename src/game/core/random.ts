@@ -0,0 +1,143 @@
+/**
+ * Random Number Service
+ * Seeded, reproducible randomness split into named sub-streams
+ */
+
+import { config } from '../config';
+
+/**
+ * Small fast PRNG (mulberry32) with a 32-bit state
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [0, max)
+   */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Random base-36 string, e.g. for IDs
+   */
+  string(length: number): string {
+    let out = '';
+    for (let i = 0; i < length; i++) {
+      out += this.int(36).toString(36);
+    }
+    return out;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * FNV-1a hash, used to derive stream seeds and to turn text seeds into numbers
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Turn user input ("1234" or "daily-2026-10-19") into a numeric seed
+ */
+export function parseSeed(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+  return hashString(trimmed);
+}
+
+/**
+ * Pick the seed for a new run: ?seed= in the URL, then config.random.seed,
+ * otherwise a fresh random one
+ */
+export function resolveSeed(): number {
+  if (typeof window !== 'undefined' && window.location) {
+    const fromUrl = new URLSearchParams(window.location.search).get('seed');
+    if (fromUrl) return parseSeed(fromUrl);
+  }
+
+  if (config.random.seed !== null) {
+    return config.random.seed >>> 0;
+  }
+
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Named, independent streams derived from one run seed, so drawing more
+ * loot rolls never shifts where enemies spawn
+ */
+export class RandomService {
+  private seed: number;
+  private streams: Map<string, Random> = new Map();
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Restart every stream from a new seed
+   */
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.streams.clear();
+  }
+
+  /**
+   * Get (or create) the stream with the given name
+   */
+  stream(name: string): Random {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new Random((this.seed ^ hashString(name)) >>> 0);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+}
+
+// Singleton instance
+const rng = new RandomService(resolveSeed());
+
+export default rng;
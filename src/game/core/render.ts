@@ -3,28 +3,66 @@
  * Handles rendering of entities with sprites, shapes, and debug visuals
  */
 
-import { Entity, TransformComponent, SpriteComponent, ColliderComponent } from './entity';
+import { Entity, EntityFactory, EntityManager, TransformComponent, Vector2 } from './entity';
+import { getWorldTransform, lerpPosition } from './transform';
+import { getWorldShape } from './shapes';
+import { Tilemap } from './tilemap';
+import { getSprite, onSpriteLoaded } from './assets';
+import { getCollisionMatrix } from './layers';
 import { config } from '../config';
 
 export class RenderSystem {
   /**
-   * Render all entities
+   * Remember current positions so the next frames can interpolate from them.
+   * Call once at the start of every simulation tick.
    */
-  static render(ctx: CanvasRenderingContext2D, entities: Entity[]): void {
+  static snapshot(entities: Entity[]): void {
+    for (const entity of entities) {
+      const transform = entity.getComponent('transform');
+      if (!transform) continue;
+      
+      if (transform.previousPosition) {
+        transform.previousPosition.x = transform.position.x;
+        transform.previousPosition.y = transform.position.y;
+      } else {
+        transform.previousPosition = { x: transform.position.x, y: transform.position.y };
+      }
+    }
+  }
+  
+  /**
+   * Give a manager's entities their sprite images as the files finish loading,
+   * for entities created before then. Returns a function that stops it.
+   */
+  static bindLoadedSprites(entities: EntityManager): () => void {
+    return onSpriteLoaded(name => {
+      for (const entity of entities.getAll()) {
+        if (entity.getComponent('sprite')?.spriteName === name) {
+          EntityFactory.bindSprite(entity);
+        }
+      }
+    });
+  }
+  
+  /**
+   * Render all entities, interpolating alpha (0-1) of the way from the
+   * previous tick's position to the current one
+   */
+  static render(ctx: CanvasRenderingContext2D, entities: Entity[], alpha: number = 1): void {
     for (const entity of entities) {
       if (!entity.active) continue;
       
-      const transform = entity.getComponent<TransformComponent>('transform');
-      const sprite = entity.getComponent<SpriteComponent>('sprite');
+      const sprite = entity.getComponent('sprite');
+      const world = sprite ? getWorldTransform(entity, alpha) : null;
       
-      if (!transform || !sprite) continue;
+      if (!sprite || !world) continue;
       
       ctx.save();
       
-      // Apply transform
-      ctx.translate(transform.position.x, transform.position.y);
-      ctx.rotate(transform.rotation);
-      ctx.scale(transform.scale.x, transform.scale.y);
+      // Apply world transform (parents included)
+      ctx.translate(world.position.x, world.position.y);
+      ctx.rotate(world.rotation);
+      ctx.scale(world.scale.x, world.scale.y);
       
       // Render sprite or placeholder
       if (sprite.image) {
@@ -50,24 +88,96 @@ export class RenderSystem {
     }
   }
   
+  /**
+   * Render a tilemap's tiles, using each tile's sprite when loaded and its color otherwise
+   */
+  static renderTilemap(ctx: CanvasRenderingContext2D, tilemap: Tilemap): void {
+    const size = tilemap.tileSize;
+    
+    ctx.save();
+    tilemap.forEachTile((tile, col, row) => {
+      const image = tile.sprite ? getSprite(tile.sprite) : undefined;
+      if (image) {
+        ctx.drawImage(image, col * size, row * size, size, size);
+      } else if (tile.color) {
+        ctx.fillStyle = tile.color;
+        ctx.fillRect(col * size, row * size, size, size);
+      }
+      
+      if (config.debug.showColliders && tile.solid) {
+        ctx.strokeStyle = '#ff0000';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(col * size, row * size, size, size);
+      }
+    });
+    ctx.restore();
+  }
+  
+  /**
+   * Get the position to draw a transform at for the given interpolation alpha
+   */
+  static interpolate(transform: TransformComponent, alpha: number): Vector2 {
+    return lerpPosition(transform, alpha);
+  }
+  
   /**
    * Render entity collider for debugging
    */
   static renderCollider(ctx: CanvasRenderingContext2D, entity: Entity): void {
-    const transform = entity.getComponent<TransformComponent>('transform');
-    const collider = entity.getComponent<ColliderComponent>('collider');
+    const shape = getWorldShape(entity);
+    const collider = entity.getComponent('collider');
     
-    if (!transform || !collider) return;
+    if (!shape || !collider) return;
     
     ctx.save();
     ctx.strokeStyle = collider.isTrigger ? '#00ff00' : '#ff0000';
     ctx.lineWidth = 2;
-    ctx.strokeRect(
-      transform.position.x,
-      transform.position.y,
-      collider.width,
-      collider.height
-    );
+    ctx.beginPath();
+    const [a, b] = shape.points;
+    if (shape.radius === 0) {
+      // box or polygon outline
+      shape.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+    } else if (!b) {
+      ctx.arc(a.x, a.y, shape.radius, 0, Math.PI * 2);
+    } else {
+      // capsule: a half circle around each end, joined by the sides
+      const angle = Math.atan2(b.y - a.y, b.x - a.x);
+      ctx.arc(a.x, a.y, shape.radius, angle + Math.PI / 2, angle + Math.PI * 1.5);
+      ctx.arc(b.x, b.y, shape.radius, angle - Math.PI / 2, angle + Math.PI / 2);
+      ctx.closePath();
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+  
+  /**
+   * Render which collision layers interact, as a grid of layer against layer
+   */
+  static renderCollisionMatrix(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+    const { layers, collides } = getCollisionMatrix();
+    const cell = 12;
+    const labelWidth = 70;
+    const size = layers.length * cell;
+    
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x, y, labelWidth + size + 8, size + 24);
+    ctx.font = '10px monospace';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText('Collision layers', x + 4, y + 4);
+    
+    layers.forEach((layer, row) => {
+      const top = y + 18 + row * cell;
+      ctx.fillStyle = '#cccccc';
+      ctx.fillText(layer, x + 4, top + 1);
+      
+      layers.forEach((_other, col) => {
+        ctx.fillStyle = collides[row][col] ? '#2ecc71' : '#444444';
+        ctx.fillRect(x + labelWidth + col * cell, top, cell - 2, cell - 2);
+      });
+    });
     ctx.restore();
   }
   
@@ -0,0 +1,218 @@
+/**
+ * Replay System
+ * Records per-tick input for a seeded run and plays it back deterministically
+ */
+
+import { InputSystem, InputSnapshot } from './input';
+import { config } from '../config';
+
+export const REPLAY_VERSION = 1;
+
+export interface ReplayMeta {
+  seed: number;
+  musicDuration: number;
+  musicFileName: string;
+}
+
+export interface Replay extends ReplayMeta {
+  version: number;
+  tickRate: number;
+  ticks: number;
+  // [tick, input] pairs, stored only on ticks where input changed
+  frames: Array<[number, InputSnapshot]>;
+}
+
+export type ReplaySpeed = 1 | 2 | 4;
+
+function sameSnapshot(a: InputSnapshot, b: InputSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Captures the input state at the start of every tick
+ */
+export class ReplayRecorder {
+  private replay: Replay;
+  private last: InputSnapshot | null = null;
+
+  constructor(meta: ReplayMeta, tickRate: number) {
+    this.replay = { version: REPLAY_VERSION, tickRate, ticks: 0, frames: [], ...meta };
+  }
+
+  capture(input: InputSystem): void {
+    const snapshot = input.getSnapshot();
+    if (!this.last || !sameSnapshot(snapshot, this.last)) {
+      this.replay.frames.push([this.replay.ticks, snapshot]);
+      this.last = snapshot;
+    }
+    this.replay.ticks++;
+  }
+
+  finish(): Replay {
+    return this.replay;
+  }
+}
+
+/**
+ * Feeds recorded input back into an InputSystem tick by tick
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  private tick: number = 0;
+  private nextFrame: number = 0;
+  private current: InputSnapshot | null = null;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+  }
+
+  apply(input: InputSystem): void {
+    const frames = this.replay.frames;
+    while (this.nextFrame < frames.length && frames[this.nextFrame][0] <= this.tick) {
+      this.current = frames[this.nextFrame][1];
+      this.nextFrame++;
+    }
+
+    if (this.current) {
+      input.applySnapshot(this.current);
+    }
+    this.tick++;
+  }
+
+  isFinished(): boolean {
+    return this.tick >= this.replay.ticks;
+  }
+}
+
+/**
+ * Engine-owned recorder/player; at most one of the two is active
+ */
+export class ReplayController {
+  private input: InputSystem;
+  private tickRate: number;
+  private recorder: ReplayRecorder | null = null;
+  private player: ReplayPlayer | null = null;
+  private lastRecording: Replay | null = null;
+
+  constructor(input: InputSystem, tickRate: number) {
+    this.input = input;
+    this.tickRate = tickRate;
+  }
+
+  /**
+   * Start recording a run (ignored while a replay is playing). Call from inside
+   * the run's first tick; that tick's input becomes frame 0.
+   */
+  record(meta: ReplayMeta): void {
+    if (this.player) return;
+    this.recorder = new ReplayRecorder(meta, this.tickRate);
+    this.recorder.capture(this.input);
+  }
+
+  /**
+   * Stop recording and keep the result as the last recording
+   */
+  stop(): Replay | null {
+    if (this.recorder) {
+      this.lastRecording = this.recorder.finish();
+      this.recorder = null;
+    }
+    return this.lastRecording;
+  }
+
+  /**
+   * Drive input from a replay instead of the DOM, starting next tick
+   */
+  play(replay: Replay): void {
+    this.recorder = null;
+    this.player = new ReplayPlayer(replay);
+    this.input.setLive(false);
+  }
+
+  /**
+   * Hand input back to the player
+   */
+  stopPlayback(): void {
+    if (!this.player) return;
+    this.player = null;
+    this.input.setLive(true);
+  }
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  isPlaying(): boolean {
+    return this.player !== null;
+  }
+
+  getLastRecording(): Replay | null {
+    return this.lastRecording;
+  }
+
+  /**
+   * Called by the engine at the start of every simulation tick
+   */
+  tick(): void {
+    if (this.player) {
+      if (this.player.isFinished()) {
+        this.stopPlayback();
+      } else {
+        this.player.apply(this.input);
+      }
+    } else if (this.recorder) {
+      this.recorder.capture(this.input);
+    }
+  }
+}
+
+/**
+ * Serialize a replay for bug reports
+ */
+export function exportReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a replay file
+ */
+export function importReplay(json: string): Replay {
+  const data = JSON.parse(json) as Partial<Replay>;
+
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (typeof data.seed !== 'number' || typeof data.ticks !== 'number' || !Array.isArray(data.frames)) {
+    throw new Error('Invalid replay file');
+  }
+  // input is recorded per tick, so another tick rate would play it back at the wrong times
+  const tickRate = data.tickRate ?? 60;
+  if (tickRate !== config.loop.tickRate) {
+    throw new Error(`Replay was recorded at ${tickRate} ticks per second, but the game runs at ${config.loop.tickRate}`);
+  }
+
+  return {
+    version: data.version,
+    seed: data.seed,
+    musicDuration: data.musicDuration ?? 0,
+    musicFileName: data.musicFileName ?? '',
+    tickRate,
+    ticks: data.ticks,
+    frames: data.frames,
+  };
+}
+
+/**
+ * Save a replay as a .json download
+ */
+export function downloadReplay(replay: Replay): void {
+  if (typeof document === 'undefined') return;
+
+  const blob = new Blob([exportReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `replay-${replay.seed}.replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
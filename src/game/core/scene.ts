@@ -0,0 +1,224 @@
+/**
+ * Scene Management
+ * Stack of scenes with lifecycle hooks, overlays, and transitions
+ */
+
+import { InputSystem } from './input';
+import { AudioAdapter } from './audio';
+import { ReplayController } from './replay';
+import { Plugin } from './systems';
+import { EventBus } from './events';
+import { config } from '../config';
+
+/**
+ * Shared services handed to every scene
+ */
+export interface SceneContext {
+  canvas: HTMLCanvasElement | null; // null when running headless
+  input: InputSystem;
+  audio: AudioAdapter;
+  scenes: SceneManager;
+  replays: ReplayController;
+  events: EventBus;
+  plugins: Plugin[]; // installed into every gameplay scene's system registry
+  headless: boolean;
+}
+
+export interface Scene {
+  readonly name: string;
+  /** Render the scenes below this one (e.g. pause overlay over gameplay) */
+  transparent?: boolean;
+  enter?(): void;
+  exit?(): void;
+  pause?(): void;
+  resume?(): void;
+  update(dt: number): void;
+  render(ctx: CanvasRenderingContext2D, alpha: number): void;
+}
+
+export interface TransitionOptions {
+  type: 'fade' | 'none';
+  duration?: number; // ms, defaults to config.ui.transitionDuration
+  color?: string;
+}
+
+interface ActiveTransition {
+  duration: number;
+  color: string;
+  elapsed: number;
+  apply: (() => void) | null;
+}
+
+export class SceneManager {
+  private stack: Scene[] = [];
+  private transition: ActiveTransition | null = null;
+  private suspended: boolean = false;
+
+  /**
+   * Put a scene on top of the stack, pausing the current one
+   */
+  push(scene: Scene, transition?: TransitionOptions): void {
+    this.run(() => {
+      this.current?.pause?.();
+      this.stack.push(scene);
+      scene.enter?.();
+    }, transition);
+  }
+
+  /**
+   * Remove the top scene and resume the one beneath it
+   */
+  pop(transition?: TransitionOptions): void {
+    this.run(() => {
+      const scene = this.stack.pop();
+      scene?.exit?.();
+      this.current?.resume?.();
+    }, transition);
+  }
+
+  /**
+   * Swap the top scene for another
+   */
+  replace(scene: Scene, transition?: TransitionOptions): void {
+    this.run(() => {
+      const previous = this.stack.pop();
+      previous?.exit?.();
+      this.stack.push(scene);
+      scene.enter?.();
+    }, transition);
+  }
+
+  /**
+   * Exit every scene and start over with a single one
+   */
+  reset(scene: Scene, transition?: TransitionOptions): void {
+    this.run(() => {
+      while (this.stack.length > 0) {
+        this.stack.pop()?.exit?.();
+      }
+      this.stack.push(scene);
+      scene.enter?.();
+    }, transition);
+  }
+
+  get current(): Scene | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /**
+   * Scenes from bottom to top
+   */
+  getScenes(): Scene[] {
+    return [...this.stack];
+  }
+
+  isTransitioning(): boolean {
+    return this.transition !== null;
+  }
+
+  /**
+   * Freeze the whole stack (e.g. the tab was hidden), pausing the top scene
+   */
+  suspend(): void {
+    if (this.suspended) return;
+    this.suspended = true;
+    this.current?.pause?.();
+  }
+
+  /**
+   * Unfreeze the stack and resume the top scene
+   */
+  resume(): void {
+    if (!this.suspended) return;
+    this.suspended = false;
+    this.current?.resume?.();
+  }
+
+  isSuspended(): boolean {
+    return this.suspended;
+  }
+
+  /**
+   * Update the top scene; the stack is frozen while a transition runs
+   */
+  update(dt: number): void {
+    if (this.suspended) return;
+
+    if (this.transition) {
+      this.updateTransition(dt);
+      return;
+    }
+
+    this.current?.update(dt);
+  }
+
+  /**
+   * Render the top scene plus any scenes visible beneath transparent ones
+   */
+  render(ctx: CanvasRenderingContext2D, alpha: number): void {
+    let first = this.stack.length - 1;
+    while (first > 0 && this.stack[first].transparent) {
+      first--;
+    }
+
+    for (let i = Math.max(first, 0); i < this.stack.length; i++) {
+      this.stack[i].render(ctx, alpha);
+    }
+
+    if (this.transition) {
+      this.renderTransition(ctx);
+    }
+  }
+
+  private run(apply: () => void, transition?: TransitionOptions): void {
+    if (!transition || transition.type === 'none' || this.stack.length === 0) {
+      apply();
+      return;
+    }
+
+    // a transition already in flight finishes its change immediately
+    if (this.transition?.apply) {
+      this.transition.apply();
+    }
+
+    this.transition = {
+      duration: (transition.duration ?? config.ui.transitionDuration) / 1000,
+      color: transition.color || '#000000',
+      elapsed: 0,
+      apply,
+    };
+  }
+
+  private updateTransition(dt: number): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    transition.elapsed += dt;
+
+    // swap scenes at the midpoint, while the screen is fully covered
+    if (transition.apply && transition.elapsed >= transition.duration / 2) {
+      const apply = transition.apply;
+      transition.apply = null;
+      apply();
+    }
+
+    if (transition.elapsed >= transition.duration) {
+      this.transition = null;
+    }
+  }
+
+  private renderTransition(ctx: CanvasRenderingContext2D): void {
+    const transition = this.transition;
+    if (!transition || transition.duration <= 0) return;
+
+    const half = transition.duration / 2;
+    const progress = Math.min(transition.elapsed / half, 2);
+    const opacity = progress <= 1 ? progress : 2 - progress;
+
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, Math.min(1, opacity));
+    ctx.fillStyle = transition.color;
+    ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
+    ctx.restore();
+  }
+}
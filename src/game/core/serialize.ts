@@ -0,0 +1,180 @@
+/**
+ * Serialization
+ * Plain JSON snapshots of entities and worlds, with a versioned schema
+ */
+
+import { Entity, EntityManager, Component, SpriteComponent } from './entity';
+import { getSprite } from './assets';
+import { config } from '../config';
+
+export const SCHEMA_VERSION = 2;
+
+/**
+ * Component data with functions and DOM objects removed
+ */
+export type ComponentSnapshot = { type: string } & Record<string, unknown>;
+
+export interface EntitySnapshot {
+  id: string;
+  active: boolean;
+  components: ComponentSnapshot[];
+}
+
+export interface WorldSnapshot {
+  version: number;
+  entities: EntitySnapshot[];
+}
+
+/**
+ * Upgrades a snapshot from one schema version to the next
+ */
+export type Migration = (snapshot: WorldSnapshot) => WorldSnapshot;
+
+/**
+ * Per-component-type hooks for data that doesn't survive JSON as-is
+ */
+export interface ComponentSerializer {
+  save?(component: Component, data: ComponentSnapshot): void;
+  load?(data: ComponentSnapshot, component: Component): void;
+}
+
+const migrations: Map<number, Migration> = new Map();
+const serializers: Map<string, ComponentSerializer> = new Map();
+
+/**
+ * Register the upgrade from `fromVersion` to `fromVersion + 1`
+ */
+export function registerMigration(fromVersion: number, migrate: Migration): void {
+  migrations.set(fromVersion, migrate);
+}
+
+export function registerComponentSerializer(type: string, serializer: ComponentSerializer): void {
+  serializers.set(type, serializer);
+}
+
+// Images can't be stored; keep the asset name and look it up again on load
+registerComponentSerializer('sprite', {
+  save(component, data) {
+    delete data.image;
+  },
+  load(data, component) {
+    const sprite = component as SpriteComponent;
+    if (sprite.spriteName) {
+      sprite.image = getSprite(sprite.spriteName);
+    }
+  },
+});
+
+// Version 2: physics.friction was a velocity multiplier applied every tick; it
+// is now a surface friction coefficient, and drag is a per-second damping rate
+registerMigration(1, snapshot => ({
+  ...snapshot,
+  entities: snapshot.entities.map(entity => ({
+    ...entity,
+    components: entity.components.map(c =>
+      c.type === 'physics' && typeof c.friction === 'number'
+        ? { ...c, friction: config.physics.friction, damping: -Math.log(c.friction) * config.loop.tickRate }
+        : c
+    ),
+  })),
+}));
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deep copy of JSON-safe data; functions and class instances (images, DOM nodes) are dropped
+ */
+function toPlain(value: unknown): unknown {
+  if (typeof value === 'function') return undefined;
+  if (Array.isArray(value)) {
+    return value.map(toPlain).filter(item => item !== undefined);
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      const plain = toPlain(field);
+      if (plain !== undefined) copy[key] = plain;
+    }
+    return copy;
+  }
+  if (typeof value === 'object' && value !== null) return undefined;
+  return value;
+}
+
+export function serializeEntity(entity: Entity): EntitySnapshot {
+  const components: ComponentSnapshot[] = [];
+  for (const component of entity.components.values()) {
+    const data = toPlain(component) as ComponentSnapshot;
+    serializers.get(component.type)?.save?.(component, data);
+    components.push(data);
+  }
+  return { id: entity.id, active: entity.active, components };
+}
+
+export function deserializeEntity(snapshot: EntitySnapshot): Entity {
+  const entity = new Entity(snapshot.id);
+  entity.active = snapshot.active;
+  for (const data of snapshot.components) {
+    const component = toPlain(data) as Component;
+    serializers.get(component.type)?.load?.(data, component);
+    entity.addComponent(component);
+  }
+  return entity;
+}
+
+export function serializeWorld(entities: EntityManager): WorldSnapshot {
+  return {
+    version: SCHEMA_VERSION,
+    entities: entities.getAll().map(serializeEntity),
+  };
+}
+
+/**
+ * Bring an older snapshot up to SCHEMA_VERSION
+ */
+export function migrateSnapshot(snapshot: WorldSnapshot): WorldSnapshot {
+  if (snapshot.version > SCHEMA_VERSION) {
+    throw new Error(`Snapshot version ${snapshot.version} is newer than supported (${SCHEMA_VERSION})`);
+  }
+
+  let current = snapshot;
+  while (current.version < SCHEMA_VERSION) {
+    const migrate = migrations.get(current.version);
+    if (!migrate) {
+      throw new Error(`No migration from snapshot version ${current.version}`);
+    }
+    current = { ...migrate(current), version: current.version + 1 };
+  }
+  return current;
+}
+
+/**
+ * Replace the contents of an entity manager with a snapshot
+ */
+export function restoreWorld(snapshot: WorldSnapshot, entities: EntityManager = new EntityManager()): EntityManager {
+  const migrated = migrateSnapshot(snapshot);
+  entities.clear();
+  for (const data of migrated.entities) {
+    entities.add(deserializeEntity(data));
+  }
+  return entities;
+}
+
+export function exportWorld(entities: EntityManager): string {
+  return JSON.stringify(serializeWorld(entities));
+}
+
+/**
+ * Parse and validate a snapshot, then restore it
+ */
+export function importWorld(json: string, entities?: EntityManager): EntityManager {
+  const data = JSON.parse(json) as Partial<WorldSnapshot>;
+  if (typeof data.version !== 'number' || !Array.isArray(data.entities)) {
+    throw new Error('Invalid world snapshot');
+  }
+  return restoreWorld(data as WorldSnapshot, entities);
+}
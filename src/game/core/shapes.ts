@@ -0,0 +1,279 @@
+/**
+ * Collision Shapes
+ * Collider shapes in world space and a separating axis test between them
+ */
+
+import type { Entity, ColliderComponent, ColliderShape, Vector2 } from './entity';
+import type { AABB } from './physics';
+import { getWorldTransform, transformPoint } from './transform';
+import { SweepHit, rayPolygon, rayCircle } from './sweep';
+
+/**
+ * Any collider shape, as a convex core grown by a radius: a box or polygon is
+ * its corners with radius 0, a circle is one point and a capsule a segment
+ */
+export interface WorldShape {
+  points: Vector2[];
+  radius: number;
+}
+
+/**
+ * How two overlapping shapes touch
+ */
+export interface Contact {
+  normal: Vector2; // unit vector pointing from the first shape towards the second
+  depth: number; // distance to move them apart along the normal (the minimum translation)
+  point: Vector2; // deepest point of the second shape inside the first
+}
+
+function dot(a: Vector2, b: Vector2): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function sub(a: Vector2, b: Vector2): Vector2 {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function normalize(v: Vector2): Vector2 | null {
+  const length = Math.sqrt(v.x * v.x + v.y * v.y);
+  return length > 1e-9 ? { x: v.x / length, y: v.y / length } : null;
+}
+
+/**
+ * Closest point to p on segment ab
+ */
+export function closestOnSegment(p: Vector2, a: Vector2, b: Vector2): Vector2 {
+  const ab = sub(b, a);
+  const lengthSq = dot(ab, ab);
+  if (lengthSq === 0) return { x: a.x, y: a.y };
+  const t = Math.max(0, Math.min(1, dot(sub(p, a), ab) / lengthSq));
+  return { x: a.x + ab.x * t, y: a.y + ab.y * t };
+}
+
+/**
+ * Closest point to p on the outline of a shape's core
+ */
+function closestOnCore(shape: WorldShape, p: Vector2): Vector2 {
+  const { points } = shape;
+  if (points.length === 1) return points[0];
+
+  let best = points[0];
+  let bestDistance = Infinity;
+  const edges = points.length === 2 ? 1 : points.length;
+  for (let i = 0; i < edges; i++) {
+    const candidate = closestOnSegment(p, points[i], points[(i + 1) % points.length]);
+    const d = sub(p, candidate);
+    const distance = dot(d, d);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Whether a polygon is convex and simple: every corner turns the same way,
+ * and the turns add up to one full circle (so it doesn't wind around twice)
+ */
+export function isConvex(points: Vector2[]): boolean {
+  let sign = 0;
+  let turned = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const ab = sub(b, a);
+    const bc = sub(c, b);
+    const cross = ab.x * bc.y - ab.y * bc.x;
+    if (cross !== 0) {
+      if (sign !== 0 && Math.sign(cross) !== sign) return false;
+      sign = Math.sign(cross);
+    }
+    turned += Math.atan2(cross, dot(ab, bc));
+  }
+  return sign !== 0 && Math.abs(Math.abs(turned) - Math.PI * 2) < 1e-6;
+}
+
+/**
+ * What's wrong with a collider shape the collision code can't use; empty when
+ * it's fine. Checked once, when a collider is added, not on every collision test.
+ */
+export function findShapeProblems(shape: ColliderShape): string[] {
+  if (shape.kind !== 'polygon') return [];
+  if (shape.points.length < 3) return ['polygon needs at least 3 points'];
+  // the separating axis test gives wrong contacts for concave shapes
+  return isConvex(shape.points) ? [] : ['polygon must be convex'];
+}
+
+/**
+ * The collider's shape in local space
+ */
+export function getLocalShape(collider: ColliderComponent): WorldShape {
+  const { width, height } = collider;
+  const shape = collider.shape ?? { kind: 'box' };
+
+  switch (shape.kind) {
+    case 'circle':
+      return {
+        points: [shape.center ?? { x: width / 2, y: height / 2 }],
+        radius: shape.radius ?? Math.min(width, height) / 2,
+      };
+    case 'capsule': {
+      const radius = shape.radius ?? Math.min(width, height) / 2;
+      const vertical = height >= width;
+      const a = shape.a ?? (vertical ? { x: width / 2, y: radius } : { x: radius, y: height / 2 });
+      const b = shape.b ?? (vertical ? { x: width / 2, y: height - radius } : { x: width - radius, y: height / 2 });
+      return { points: [a, b], radius };
+    }
+    case 'polygon':
+      return { points: shape.points, radius: 0 };
+    case 'box':
+      return {
+        points: [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }],
+        radius: 0,
+      };
+  }
+}
+
+/**
+ * An entity's collider in world space, rotated and scaled by its world transform
+ */
+export function getWorldShape(entity: Entity): WorldShape | null {
+  const collider = entity.getComponent('collider');
+  const world = collider ? getWorldTransform(entity) : null;
+  if (!collider || !world) return null;
+
+  const local = getLocalShape(collider);
+  return {
+    points: local.points.map(point => transformPoint(world, point)),
+    // circles stay round; non-uniform scale grows them by the larger factor
+    radius: local.radius * Math.max(Math.abs(world.scale.x), Math.abs(world.scale.y)),
+  };
+}
+
+export function getShapeBounds(shape: WorldShape): AABB {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of shape.points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  const r = shape.radius;
+  return { x: minX - r, y: minY - r, width: maxX - minX + r * 2, height: maxY - minY + r * 2 };
+}
+
+/**
+ * Extent of a shape along a unit axis
+ */
+function project(shape: WorldShape, axis: Vector2): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const p of shape.points) {
+    const d = dot(p, axis);
+    min = Math.min(min, d);
+    max = Math.max(max, d);
+  }
+  return { min: min - shape.radius, max: max + shape.radius };
+}
+
+/**
+ * Point of a shape furthest along a unit direction
+ */
+export function support(shape: WorldShape, direction: Vector2): Vector2 {
+  let best = shape.points[0];
+  for (const p of shape.points) {
+    if (dot(p, direction) > dot(best, direction)) best = p;
+  }
+  return { x: best.x + direction.x * shape.radius, y: best.y + direction.y * shape.radius };
+}
+
+/**
+ * Axes that can separate two shapes: the edge normals of each core, and for
+ * rounded shapes the directions between each core point and the other core
+ */
+function candidateAxes(a: WorldShape, b: WorldShape): Vector2[] {
+  const axes: Vector2[] = [];
+  for (const shape of [a, b]) {
+    const { points } = shape;
+    const edges = points.length === 2 ? 1 : points.length === 1 ? 0 : points.length;
+    for (let i = 0; i < edges; i++) {
+      const edge = sub(points[(i + 1) % points.length], points[i]);
+      const normal = normalize({ x: -edge.y, y: edge.x });
+      if (normal) axes.push(normal);
+    }
+  }
+
+  if (a.radius > 0 || b.radius > 0) {
+    for (const [shape, other] of [[a, b], [b, a]]) {
+      for (const p of shape.points) {
+        const axis = normalize(sub(p, closestOnCore(other, p)));
+        if (axis) axes.push(axis);
+      }
+    }
+  }
+  return axes;
+}
+
+/**
+ * Separating axis test; the contact to push b out of a along, or null when apart.
+ * Shapes that only touch don't overlap.
+ */
+export function collideShapes(a: WorldShape, b: WorldShape): Contact | null {
+  let best: Contact | null = null;
+
+  for (const axis of candidateAxes(a, b)) {
+    const pa = project(a, axis);
+    const pb = project(b, axis);
+    // b pushed forwards along the axis, or backwards, whichever is shorter
+    const forward = pa.max - pb.min;
+    const backward = pb.max - pa.min;
+    const depth = Math.min(forward, backward);
+    if (depth <= 0) return null;
+
+    if (!best || depth < best.depth) {
+      const normal = forward <= backward ? axis : { x: -axis.x, y: -axis.y };
+      best = { normal, depth, point: { x: 0, y: 0 } };
+    }
+  }
+
+  if (!best) {
+    // both cores are single points at the same spot (concentric circles)
+    const depth = a.radius + b.radius;
+    if (depth <= 0) return null;
+    best = { normal: { x: 1, y: 0 }, depth, point: { x: 0, y: 0 } };
+  }
+
+  best.point = support(b, { x: -best.normal.x, y: -best.normal.y });
+  return best;
+}
+
+/**
+ * First time a point moving by delta enters a shape; null when it misses or starts inside
+ */
+export function rayShape(origin: Vector2, delta: Vector2, shape: WorldShape): SweepHit | null {
+  const { points, radius } = shape;
+  if (radius === 0) return rayPolygon(origin, delta, points);
+
+  const [a, b] = points;
+  const side = b ? normalize({ x: -(b.y - a.y), y: b.x - a.x }) : null;
+  if (!side) return rayCircle(origin, delta, a, radius);
+
+  // capsule: the rectangle along its segment and a circle at each end
+  const offset = { x: side.x * radius, y: side.y * radius };
+  const hits = [
+    rayPolygon(origin, delta, [
+      { x: a.x + offset.x, y: a.y + offset.y },
+      { x: b.x + offset.x, y: b.y + offset.y },
+      { x: b.x - offset.x, y: b.y - offset.y },
+      { x: a.x - offset.x, y: a.y - offset.y },
+    ]),
+    rayCircle(origin, delta, a, radius),
+    rayCircle(origin, delta, b, radius),
+  ];
+  return hits.reduce<SweepHit | null>((first, hit) => (hit && (!first || hit.time < first.time) ? hit : first), null);
+}
@@ -0,0 +1,310 @@
+/**
+ * Spatial Hash
+ * Uniform grid of boxes for finding what is near a region without checking everything
+ */
+
+import type { AABB } from './physics';
+import type { Vector2 } from './entity';
+
+interface CellRange {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface Entry {
+  box: AABB;
+  cells: CellRange;
+  order: number; // insertion order, so pairs are visited once and deterministically
+  layer: number; // filter bits; a pair needs each one's mask to include the other's layer
+  mask: number;
+}
+
+const ALL_LAYERS = -1;
+
+// grid coordinates packed into one number; supports +/-32767 cells per axis
+function cellKey(x: number, y: number): number {
+  return (x + 32768) * 65536 + (y + 32768);
+}
+
+export function overlaps(a: AABB, b: AABB): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+export function circleOverlaps(box: AABB, center: Vector2, radius: number): boolean {
+  const dx = center.x - Math.max(box.x, Math.min(center.x, box.x + box.width));
+  const dy = center.y - Math.max(box.y, Math.min(center.y, box.y + box.height));
+  return dx * dx + dy * dy < radius * radius;
+}
+
+/**
+ * Visit the cells of a grid that a segment from origin to origin + delta
+ * crosses, in order along it (a DDA walk). Stops early when visit returns true.
+ */
+export function forEachCellOnRay(
+  origin: Vector2,
+  delta: Vector2,
+  cellSize: number,
+  visit: (x: number, y: number) => boolean | void
+): void {
+  if (!Number.isFinite(delta.x) || !Number.isFinite(delta.y)) {
+    throw new Error('Rays must have a finite length');
+  }
+
+  let x = Math.floor(origin.x / cellSize);
+  let y = Math.floor(origin.y / cellSize);
+  const stepX = Math.sign(delta.x);
+  const stepY = Math.sign(delta.y);
+  // fraction of the segment at which it crosses the next cell boundary on each axis
+  let nextX = stepX === 0 ? Infinity : ((stepX > 0 ? x + 1 : x) * cellSize - origin.x) / delta.x;
+  let nextY = stepY === 0 ? Infinity : ((stepY > 0 ? y + 1 : y) * cellSize - origin.y) / delta.y;
+  const spanX = stepX === 0 ? Infinity : cellSize / Math.abs(delta.x);
+  const spanY = stepY === 0 ? Infinity : cellSize / Math.abs(delta.y);
+
+  while (!visit(x, y)) {
+    if (nextX < nextY) {
+      if (nextX > 1) return;
+      x += stepX;
+      nextX += spanX;
+    } else {
+      if (nextY > 1) return;
+      y += stepY;
+      nextY += spanY;
+    }
+  }
+}
+
+/**
+ * Whether a segment from origin to origin + delta touches a box
+ */
+function segmentOverlaps(box: AABB, origin: Vector2, delta: Vector2): boolean {
+  let enter = 0;
+  let exit = 1;
+  const axes: Array<['x' | 'y', number, number]> = [
+    ['x', box.x, box.x + box.width],
+    ['y', box.y, box.y + box.height],
+  ];
+  for (const [axis, min, max] of axes) {
+    const o = origin[axis];
+    const d = delta[axis];
+    if (d === 0) {
+      if (o < min || o > max) return false;
+      continue;
+    }
+    const t1 = (min - o) / d;
+    const t2 = (max - o) / d;
+    enter = Math.max(enter, Math.min(t1, t2));
+    exit = Math.min(exit, Math.max(t1, t2));
+  }
+  return enter <= exit;
+}
+
+export class SpatialHash<T> {
+  readonly cellSize: number;
+  private cells: Map<number, Set<T>> = new Map();
+  private entries: Map<T, Entry> = new Map();
+  private nextOrder: number = 0;
+
+  constructor(cellSize: number) {
+    if (cellSize <= 0) {
+      throw new Error(`Spatial hash cell size must be positive, got ${cellSize}`);
+    }
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  /**
+   * Box an item was last stored with
+   */
+  getBounds(item: T): AABB | undefined {
+    return this.entries.get(item)?.box;
+  }
+
+  /**
+   * Box around everything stored, or null when empty
+   */
+  getExtent(): AABB | null {
+    if (this.entries.size === 0) return null;
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const { box } of this.entries.values()) {
+      minX = Math.min(minX, box.x);
+      minY = Math.min(minY, box.y);
+      maxX = Math.max(maxX, box.x + box.width);
+      maxY = Math.max(maxY, box.y + box.height);
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  /**
+   * Add an item or move it to a new box; only touches the grid when the
+   * item crosses into different cells. Layer and mask bits filter pairs and queries.
+   */
+  update(item: T, box: AABB, layer: number = 1, mask: number = ALL_LAYERS): void {
+    const cells = this.getCells(box);
+    const entry = this.entries.get(item);
+
+    if (!entry) {
+      this.entries.set(item, { box: { ...box }, cells, order: this.nextOrder++, layer, mask });
+      this.addToCells(item, cells);
+      return;
+    }
+
+    entry.layer = layer;
+    entry.mask = mask;
+    entry.box.x = box.x;
+    entry.box.y = box.y;
+    entry.box.width = box.width;
+    entry.box.height = box.height;
+
+    const old = entry.cells;
+    if (old.minX !== cells.minX || old.minY !== cells.minY || old.maxX !== cells.maxX || old.maxY !== cells.maxY) {
+      this.removeFromCells(item, old);
+      this.addToCells(item, cells);
+      entry.cells = cells;
+    }
+  }
+
+  remove(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    this.removeFromCells(item, entry.cells);
+    this.entries.delete(item);
+  }
+
+  /**
+   * Items whose boxes overlap a region, in insertion order; mask limits the layers
+   */
+  queryAABB(region: AABB, mask: number = ALL_LAYERS): T[] {
+    return this.collect(this.getCells(region), e => (e.layer & mask) !== 0 && overlaps(e.box, region));
+  }
+
+  /**
+   * Items whose boxes touch a circle, in insertion order; mask limits the layers
+   */
+  queryCircle(center: Vector2, radius: number, mask: number = ALL_LAYERS): T[] {
+    const region = { x: center.x - radius, y: center.y - radius, width: radius * 2, height: radius * 2 };
+    return this.collect(this.getCells(region), e => (e.layer & mask) !== 0 && circleOverlaps(e.box, center, radius));
+  }
+
+  /**
+   * Items whose boxes a segment from origin to origin + delta touches, found by
+   * walking only the cells it crosses; in insertion order, mask limits the layers
+   */
+  queryRay(origin: Vector2, delta: Vector2, mask: number = ALL_LAYERS): T[] {
+    const found: Set<T> = new Set();
+    forEachCellOnRay(origin, delta, this.cellSize, (x, y) => {
+      for (const item of this.cells.get(cellKey(x, y)) ?? []) {
+        const entry = this.entries.get(item)!;
+        if (!found.has(item) && (entry.layer & mask) !== 0 && segmentOverlaps(entry.box, origin, delta)) {
+          found.add(item);
+        }
+      }
+    });
+    return this.inOrder(found);
+  }
+
+  /**
+   * Call back once for every pair of items whose boxes overlap and whose layers
+   * and masks accept each other
+   */
+  forEachPair(callback: (a: T, b: T) => void): void {
+    for (const [item, entry] of this.entries) {
+      const candidates = this.collect(entry.cells, e =>
+        (entry.mask & e.layer) !== 0 && (e.mask & entry.layer) !== 0 && overlaps(e.box, entry.box)
+      );
+      for (const other of candidates) {
+        // each pair is found from both sides; keep the one from the older item.
+        // Callbacks may remove items, so look the other one up again.
+        const otherEntry = this.entries.get(other);
+        if (otherEntry && otherEntry.order > entry.order) {
+          callback(item, other);
+        }
+      }
+    }
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+    this.nextOrder = 0;
+  }
+
+  private getCells(box: AABB): CellRange {
+    // edges that land exactly on a cell boundary don't reach into the next cell
+    const size = this.cellSize;
+    return {
+      minX: Math.floor(box.x / size),
+      minY: Math.floor(box.y / size),
+      maxX: Math.max(Math.floor(box.x / size), Math.ceil((box.x + box.width) / size) - 1),
+      maxY: Math.max(Math.floor(box.y / size), Math.ceil((box.y + box.height) / size) - 1),
+    };
+  }
+
+  private addToCells(item: T, cells: CellRange): void {
+    for (let x = cells.minX; x <= cells.maxX; x++) {
+      for (let y = cells.minY; y <= cells.maxY; y++) {
+        const key = cellKey(x, y);
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          this.cells.set(key, cell);
+        }
+        cell.add(item);
+      }
+    }
+  }
+
+  private removeFromCells(item: T, cells: CellRange): void {
+    for (let x = cells.minX; x <= cells.maxX; x++) {
+      for (let y = cells.minY; y <= cells.maxY; y++) {
+        const key = cellKey(x, y);
+        const cell = this.cells.get(key);
+        if (!cell) continue;
+        cell.delete(item);
+        if (cell.size === 0) this.cells.delete(key);
+      }
+    }
+  }
+
+  private collect(cells: CellRange, test: (entry: Entry) => boolean): T[] {
+    const found: Set<T> = new Set();
+    const count = (cells.maxX - cells.minX + 1) * (cells.maxY - cells.minY + 1);
+    if (!(count <= this.cells.size)) {
+      // a range bigger than the occupied cells (or unbounded) is quicker to
+      // answer by testing every item
+      for (const [item, entry] of this.entries) {
+        if (test(entry)) found.add(item);
+      }
+      return this.inOrder(found);
+    }
+
+    for (let x = cells.minX; x <= cells.maxX; x++) {
+      for (let y = cells.minY; y <= cells.maxY; y++) {
+        const cell = this.cells.get(cellKey(x, y));
+        if (!cell) continue;
+        for (const item of cell) {
+          if (!found.has(item) && test(this.entries.get(item)!)) {
+            found.add(item);
+          }
+        }
+      }
+    }
+    return this.inOrder(found);
+  }
+
+  private inOrder(found: Set<T>): T[] {
+    // cells are visited in grid order; return in insertion order for determinism
+    return Array.from(found).sort((a, b) => this.entries.get(a)!.order - this.entries.get(b)!.order);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Swept Collision
+ * Time of impact for boxes and circles moving in a straight line, so fast
+ * movers can't skip past thin obstacles between ticks
+ */
+
+import type { Vector2 } from './entity';
+import type { AABB } from './physics';
+
+/**
+ * Where along a move two shapes first touch
+ */
+export interface SweepHit {
+  time: number; // fraction of the move (0-1) before contact
+  normal: Vector2; // surface normal of what was hit, pointing back at the mover
+}
+
+/**
+ * First time a point moving by delta enters a box; null when it misses, starts
+ * inside or only grazes an edge
+ */
+export function rayBox(origin: Vector2, delta: Vector2, box: AABB): SweepHit | null {
+  let enter = -Infinity;
+  let exit = Infinity;
+  let normal: Vector2 = { x: 0, y: 0 };
+
+  const axes: Array<['x' | 'y', number, number]> = [
+    ['x', box.x, box.x + box.width],
+    ['y', box.y, box.y + box.height],
+  ];
+  for (const [axis, min, max] of axes) {
+    const o = origin[axis];
+    const d = delta[axis];
+    if (d === 0) {
+      if (o <= min || o >= max) return null;
+      continue;
+    }
+    const t1 = (min - o) / d;
+    const t2 = (max - o) / d;
+    const near = Math.min(t1, t2);
+    const far = Math.max(t1, t2);
+    if (near > enter) {
+      enter = near;
+      normal = axis === 'x' ? { x: -Math.sign(d), y: 0 } : { x: 0, y: -Math.sign(d) };
+    }
+    exit = Math.min(exit, far);
+  }
+
+  if (enter >= exit || enter < 0 || enter > 1) return null;
+  return { time: enter, normal };
+}
+
+/**
+ * First time a point moving by delta enters a convex polygon (either winding)
+ */
+export function rayPolygon(origin: Vector2, delta: Vector2, points: Vector2[]): SweepHit | null {
+  const centroid = points.reduce((sum, p) => ({ x: sum.x + p.x / points.length, y: sum.y + p.y / points.length }), { x: 0, y: 0 });
+  let enter = -Infinity;
+  let exit = Infinity;
+  let normal: Vector2 = { x: 0, y: 0 };
+
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const q = points[(i + 1) % points.length];
+    const length = Math.hypot(q.x - p.x, q.y - p.y);
+    if (length === 0) continue;
+
+    // outward edge normal
+    let n = { x: (q.y - p.y) / length, y: -(q.x - p.x) / length };
+    if (n.x * (centroid.x - p.x) + n.y * (centroid.y - p.y) > 0) {
+      n = { x: -n.x, y: -n.y };
+    }
+
+    const distance = n.x * (p.x - origin.x) + n.y * (p.y - origin.y);
+    const speed = n.x * delta.x + n.y * delta.y;
+    if (speed === 0) {
+      // parallel to the edge: outside it means a miss
+      if (distance <= 0) return null;
+      continue;
+    }
+    const t = distance / speed;
+    if (speed < 0) {
+      if (t > enter) {
+        enter = t;
+        normal = n;
+      }
+    } else {
+      exit = Math.min(exit, t);
+    }
+  }
+
+  if (enter >= exit || enter < 0 || enter > 1) return null;
+  return { time: enter, normal };
+}
+
+/**
+ * First time a point moving by delta enters a circle
+ */
+export function rayCircle(origin: Vector2, delta: Vector2, center: Vector2, radius: number): SweepHit | null {
+  const fx = origin.x - center.x;
+  const fy = origin.y - center.y;
+  const a = delta.x * delta.x + delta.y * delta.y;
+  const b = 2 * (fx * delta.x + fy * delta.y);
+  const c = fx * fx + fy * fy - radius * radius;
+  // starting inside, or not moving
+  if (c <= 0 || a === 0) return null;
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant <= 0) return null;
+
+  const time = (-b - Math.sqrt(discriminant)) / (2 * a);
+  if (time < 0 || time > 1) return null;
+
+  const hitX = origin.x + delta.x * time - center.x;
+  const hitY = origin.y + delta.y * time - center.y;
+  return { time, normal: { x: hitX / radius, y: hitY / radius } };
+}
+
+/**
+ * Box moving by delta against a still box
+ */
+export function sweepAABB(moving: AABB, delta: Vector2, target: AABB): SweepHit | null {
+  // Minkowski sum: the moving box's corner against the target grown by its size
+  return rayBox({ x: moving.x, y: moving.y }, delta, {
+    x: target.x - moving.width,
+    y: target.y - moving.height,
+    width: target.width + moving.width,
+    height: target.height + moving.height,
+  });
+}
+
+/**
+ * Circle moving by delta against a still box
+ */
+export function sweepCircle(center: Vector2, radius: number, delta: Vector2, target: AABB): SweepHit | null {
+  // the box grown by the radius, with its corners rounded off
+  const hit = rayBox(center, delta, {
+    x: target.x - radius,
+    y: target.y - radius,
+    width: target.width + radius * 2,
+    height: target.height + radius * 2,
+  });
+  if (!hit) return null;
+
+  const x = center.x + delta.x * hit.time;
+  const y = center.y + delta.y * hit.time;
+  const cornerX = x < target.x ? target.x : x > target.x + target.width ? target.x + target.width : null;
+  const cornerY = y < target.y ? target.y : y > target.y + target.height ? target.y + target.height : null;
+  if (cornerX === null || cornerY === null) return hit;
+
+  // entered the square corner of the grown box; the rounded corner may be later or missed
+  return rayCircle(center, delta, { x: cornerX, y: cornerY }, radius);
+}
+
+/**
+ * Circle moving by delta against a still circle
+ */
+export function sweepCircleCircle(
+  center: Vector2,
+  radius: number,
+  delta: Vector2,
+  target: Vector2,
+  targetRadius: number
+): SweepHit | null {
+  return rayCircle(center, delta, target, radius + targetRadius);
+}
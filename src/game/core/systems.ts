@@ -0,0 +1,167 @@
+/**
+ * System Pipeline
+ * Ordered, pluggable systems that run each tick and each frame
+ */
+
+import { EntityManager } from './entity';
+import { CommandBuffer } from './commands';
+import { SceneContext } from './scene';
+import profiler from './profiler';
+
+/**
+ * Phases run in this order; update phases every tick, render phases every frame
+ */
+export const SYSTEM_PHASES = [
+  'input',
+  'preUpdate',
+  'physics',
+  'collision',
+  'update',
+  'ai',
+  'postUpdate',
+  'render',
+  'ui',
+] as const;
+
+export type SystemPhase = typeof SYSTEM_PHASES[number];
+
+/**
+ * What systems operate on
+ */
+export interface World {
+  entities: EntityManager;
+  commands: CommandBuffer; // applied at the end of every update phase
+  context: SceneContext;
+}
+
+export interface System {
+  readonly name: string;
+  phase: SystemPhase;
+  priority?: number; // lower runs first within a phase (default 0)
+  enabled?: boolean; // default true
+  update?(dt: number, world: World): void;
+  render?(ctx: CanvasRenderingContext2D, alpha: number, world: World): void;
+}
+
+/**
+ * Bundle of systems installed together, e.g. by third-party code
+ */
+export interface Plugin {
+  readonly name: string;
+  install(systems: SystemRegistry, world: World): void;
+}
+
+export class SystemRegistry {
+  private systems: System[] = [];
+  private ordered: System[] | null = null;
+
+  /**
+   * Add a system; names must be unique
+   */
+  register(system: System): this {
+    if (this.get(system.name)) {
+      throw new Error(`System already registered: ${system.name}`);
+    }
+    this.systems.push(system);
+    this.ordered = null;
+    return this;
+  }
+
+  unregister(name: string): void {
+    this.systems = this.systems.filter(s => s.name !== name);
+    this.ordered = null;
+  }
+
+  get(name: string): System | undefined {
+    return this.systems.find(s => s.name === name);
+  }
+
+  setEnabled(name: string, enabled: boolean): void {
+    const system = this.require(name);
+    system.enabled = enabled;
+  }
+
+  isEnabled(name: string): boolean {
+    return this.get(name)?.enabled !== false;
+  }
+
+  /**
+   * Move a system within its phase, or into another phase
+   */
+  reorder(name: string, priority: number, phase?: SystemPhase): void {
+    const system = this.require(name);
+    system.priority = priority;
+    if (phase) system.phase = phase;
+    this.ordered = null;
+  }
+
+  /**
+   * Install every system a plugin provides
+   */
+  use(plugin: Plugin, world: World): this {
+    plugin.install(this, world);
+    return this;
+  }
+
+  /**
+   * Systems in execution order
+   */
+  getOrdered(): System[] {
+    if (!this.ordered) {
+      // Array.prototype.sort is stable, so equal priorities keep registration order
+      this.ordered = [...this.systems].sort((a, b) =>
+        SYSTEM_PHASES.indexOf(a.phase) - SYSTEM_PHASES.indexOf(b.phase) ||
+        (a.priority ?? 0) - (b.priority ?? 0)
+      );
+    }
+    return this.ordered;
+  }
+
+  /**
+   * Run every enabled system's update in order. Queued commands are applied
+   * after each phase, so a phase sees the changes made by earlier phases.
+   */
+  update(dt: number, world: World): void {
+    const ordered = this.getOrdered();
+    ordered.forEach((system, i) => {
+      if (system.enabled !== false && system.update) {
+        this.measure(system, () => system.update!(dt, world));
+      }
+      if (ordered[i + 1]?.phase !== system.phase) {
+        world.commands.apply();
+      }
+    });
+    profiler.count('entities', world.entities.size);
+  }
+
+  /**
+   * Run every enabled system's render in order
+   */
+  render(ctx: CanvasRenderingContext2D, alpha: number, world: World): void {
+    for (const system of this.getOrdered()) {
+      if (system.enabled === false || !system.render) continue;
+      this.measure(system, () => system.render!(ctx, alpha, world));
+    }
+  }
+
+  /**
+   * Run a system, charging its time to its phase when profiling
+   */
+  private measure(system: System, run: () => void): void {
+    if (!profiler.enabled) {
+      run();
+      return;
+    }
+    const start = profiler.now();
+    run();
+    profiler.record(system.phase, profiler.now() - start);
+  }
+
+  private require(name: string): System {
+    const system = this.get(name);
+    if (!system) {
+      throw new Error(`Unknown system: ${name}`);
+    }
+    return system;
+  }
+}
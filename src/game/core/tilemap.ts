@@ -0,0 +1,215 @@
+/**
+ * Tilemap
+ * Grid of tile ids for static world geometry such as walls and obstacles
+ */
+
+import type { AABB } from './physics';
+import type { Vector2 } from './entity';
+
+export interface TileDefinition {
+  solid: boolean; // blocks entities with colliders
+  color?: string; // fill when the sprite isn't loaded; tiles without either aren't drawn
+  sprite?: string; // asset name, e.g. 'wall'
+}
+
+/**
+ * JSON form of a tilemap: one character per tile, each a key of `tiles`
+ *
+ *   { "tileSize": 40, "tiles": { ".": { "solid": false }, "#": { "solid": true } },
+ *     "rows": ["....", ".##.", "...."] }
+ */
+export interface TilemapData {
+  tileSize: number;
+  tiles: Record<string, TileDefinition>;
+  rows: string[];
+}
+
+export interface TileCoord {
+  col: number;
+  row: number;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export class Tilemap {
+  readonly tileSize: number;
+  readonly columns: number;
+  readonly rows: number;
+  private palette: TileDefinition[];
+  private grid: number[]; // tile id per cell, row by row; -1 is empty
+
+  constructor(tileSize: number, columns: number, rows: number, palette: TileDefinition[]) {
+    if (tileSize <= 0) {
+      throw new Error(`Tile size must be positive, got ${tileSize}`);
+    }
+    this.tileSize = tileSize;
+    this.columns = columns;
+    this.rows = rows;
+    this.palette = palette;
+    this.grid = new Array(columns * rows).fill(-1);
+  }
+
+  /**
+   * Build a tilemap from its JSON form. Throws listing every problem found.
+   */
+  static fromJSON(data: unknown): Tilemap {
+    if (!isObject(data)) {
+      throw new Error('Tilemap data must be an object');
+    }
+
+    const { tileSize, tiles, rows } = data as Partial<TilemapData>;
+    const errors: string[] = [];
+
+    if (typeof tileSize !== 'number' || tileSize <= 0) {
+      errors.push('tileSize must be a positive number');
+    }
+    if (!isObject(tiles) || Object.values(tiles).some(tile => !isObject(tile) || typeof tile.solid !== 'boolean')) {
+      errors.push('tiles must map single characters to { solid: boolean }');
+    } else if (Object.keys(tiles).some(key => key.length !== 1)) {
+      errors.push('tile keys must be single characters');
+    }
+    if (!Array.isArray(rows) || rows.length === 0 || rows.some(row => typeof row !== 'string')) {
+      errors.push('rows must be a non-empty array of strings');
+    }
+    if (errors.length === 0) {
+      const width = rows![0].length;
+      rows!.forEach((row, i) => {
+        if (row.length !== width) {
+          errors.push(`row ${i} is ${row.length} tiles wide, expected ${width}`);
+        }
+        for (const key of new Set(row)) {
+          if (!(key in tiles!)) errors.push(`row ${i}: unknown tile "${key}"`);
+        }
+      });
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid tilemap:\n  ${errors.join('\n  ')}`);
+    }
+
+    const keys = Object.keys(tiles!);
+    const map = new Tilemap(tileSize!, rows![0].length, rows!.length, keys.map(key => ({ ...tiles![key] })));
+    rows!.forEach((row, r) => {
+      for (let c = 0; c < row.length; c++) {
+        map.setTile(c, r, keys.indexOf(row[c]));
+      }
+    });
+    return map;
+  }
+
+  /**
+   * Size in pixels
+   */
+  get width(): number {
+    return this.columns * this.tileSize;
+  }
+
+  get height(): number {
+    return this.rows * this.tileSize;
+  }
+
+  inBounds(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.columns && row < this.rows;
+  }
+
+  /**
+   * Tile id at a cell; -1 when empty or outside the map
+   */
+  getTileId(col: number, row: number): number {
+    return this.inBounds(col, row) ? this.grid[row * this.columns + col] : -1;
+  }
+
+  getTile(col: number, row: number): TileDefinition | undefined {
+    return this.palette[this.getTileId(col, row)];
+  }
+
+  /**
+   * Place a palette tile (or -1 to clear the cell)
+   */
+  setTile(col: number, row: number, id: number): void {
+    if (!this.inBounds(col, row)) {
+      throw new Error(`Tile ${col},${row} is outside the ${this.columns}x${this.rows} map`);
+    }
+    if (id !== -1 && !this.palette[id]) {
+      throw new Error(`Unknown tile id: ${id}`);
+    }
+    this.grid[row * this.columns + col] = id;
+  }
+
+  /**
+   * Whether a cell blocks movement; cells outside the map don't
+   */
+  isSolid(col: number, row: number): boolean {
+    return this.getTile(col, row)?.solid ?? false;
+  }
+
+  worldToTile(x: number, y: number): TileCoord {
+    return { col: Math.floor(x / this.tileSize), row: Math.floor(y / this.tileSize) };
+  }
+
+  /**
+   * World-space box of a cell
+   */
+  getTileBounds(col: number, row: number): AABB {
+    return { x: col * this.tileSize, y: row * this.tileSize, width: this.tileSize, height: this.tileSize };
+  }
+
+  /**
+   * Boxes of the solid tiles a world-space box overlaps
+   */
+  getSolidTiles(box: AABB): AABB[] {
+    const solid: AABB[] = [];
+    const size = this.tileSize;
+    // touching a tile's edge isn't overlapping it
+    const lastCol = Math.ceil((box.x + box.width) / size) - 1;
+    const lastRow = Math.ceil((box.y + box.height) / size) - 1;
+    for (let row = Math.floor(box.y / size); row <= lastRow; row++) {
+      for (let col = Math.floor(box.x / size); col <= lastCol; col++) {
+        if (this.isSolid(col, row)) solid.push(this.getTileBounds(col, row));
+      }
+    }
+    return solid;
+  }
+
+  overlapsSolid(box: AABB): boolean {
+    return this.getSolidTiles(box).length > 0;
+  }
+
+  /**
+   * Nearest top-left for a box where it overlaps no solid tile: where it is if
+   * already clear, otherwise centered on a cell inside the map; null if none fits
+   */
+  findOpenPosition(box: AABB): Vector2 | null {
+    if (!this.overlapsSolid(box)) return { x: box.x, y: box.y };
+
+    let best: Vector2 | null = null;
+    let bestDistance = Infinity;
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.columns; col++) {
+        const x = (col + 0.5) * this.tileSize - box.width / 2;
+        const y = (row + 0.5) * this.tileSize - box.height / 2;
+        if (x < 0 || y < 0 || x + box.width > this.width || y + box.height > this.height) continue;
+
+        const distance = (x - box.x) ** 2 + (y - box.y) ** 2;
+        if (distance < bestDistance && !this.overlapsSolid({ x, y, width: box.width, height: box.height })) {
+          best = { x, y };
+          bestDistance = distance;
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Visit every non-empty cell
+   */
+  forEachTile(callback: (tile: TileDefinition, col: number, row: number) => void): void {
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.columns; col++) {
+        const tile = this.getTile(col, row);
+        if (tile) callback(tile, col, row);
+      }
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Transforms
+ * Local-to-world transform math for the entity hierarchy
+ */
+
+import type { Entity, TransformComponent, Vector2 } from './entity';
+import profiler from './profiler';
+
+/**
+ * Position, rotation and scale in world space
+ */
+export interface WorldTransform {
+  position: Vector2;
+  rotation: number;
+  scale: Vector2;
+}
+
+function rotate(v: Vector2, angle: number): Vector2 {
+  if (angle === 0) return { x: v.x, y: v.y };
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: v.x * cos - v.y * sin, y: v.x * sin + v.y * cos };
+}
+
+/**
+ * A point in an entity's local space (relative to its origin, before scale and
+ * rotation) moved into world space
+ */
+export function transformPoint(world: WorldTransform, point: Vector2): Vector2 {
+  const offset = rotate({ x: point.x * world.scale.x, y: point.y * world.scale.y }, world.rotation);
+  return { x: world.position.x + offset.x, y: world.position.y + offset.y };
+}
+
+/**
+ * Local position blended alpha (0-1) of the way from the previous tick's position
+ */
+export function lerpPosition(transform: TransformComponent, alpha: number): Vector2 {
+  const previous = transform.previousPosition;
+  if (!previous || alpha >= 1) return transform.position;
+
+  profiler.allocate('vectors');
+  return {
+    x: previous.x + (transform.position.x - previous.x) * alpha,
+    y: previous.y + (transform.position.y - previous.y) * alpha,
+  };
+}
+
+/**
+ * Apply a local transform on top of its parent's world transform
+ */
+export function combineTransforms(parent: WorldTransform, local: WorldTransform): WorldTransform {
+  const scaled = { x: local.position.x * parent.scale.x, y: local.position.y * parent.scale.y };
+  const offset = rotate(scaled, parent.rotation);
+  return {
+    position: { x: parent.position.x + offset.x, y: parent.position.y + offset.y },
+    rotation: parent.rotation + local.rotation,
+    scale: { x: parent.scale.x * local.scale.x, y: parent.scale.y * local.scale.y },
+  };
+}
+
+/**
+ * The local transform that puts a child at `world` under a parent at `parent`
+ */
+export function toLocalTransform(world: WorldTransform, parent: WorldTransform): WorldTransform {
+  const offset = rotate(
+    { x: world.position.x - parent.position.x, y: world.position.y - parent.position.y },
+    -parent.rotation
+  );
+  return {
+    position: { x: offset.x / (parent.scale.x || 1), y: offset.y / (parent.scale.y || 1) },
+    rotation: world.rotation - parent.rotation,
+    scale: { x: world.scale.x / (parent.scale.x || 1), y: world.scale.y / (parent.scale.y || 1) },
+  };
+}
+
+/**
+ * World transform of an entity, walking up its parents; alpha interpolates
+ * every level for rendering. Null when the entity has no transform.
+ */
+export function getWorldTransform(entity: Entity, alpha: number = 1): WorldTransform | null {
+  const transform = entity.getComponent('transform');
+  if (!transform) return null;
+
+  const local: WorldTransform = {
+    position: lerpPosition(transform, alpha),
+    rotation: transform.rotation,
+    scale: transform.scale,
+  };
+
+  const parent = transform.parent ? entity.manager?.get(transform.parent) : undefined;
+  const parentWorld = parent ? getWorldTransform(parent, alpha) : null;
+  if (!parentWorld) return local;
+
+  profiler.allocate('vectors', 3);
+  return combineTransforms(parentWorld, local);
+}
+
+export function getWorldPosition(entity: Entity): Vector2 | null {
+  return getWorldTransform(entity)?.position ?? null;
+}
@@ -1,23 +1,104 @@
 import * as Spawner from './spawn';
+import { FixedTimestep } from './core/loop';
+import { SceneManager, SceneContext } from './core/scene';
+import { InputSystem } from './core/input';
+import audioManager, { AudioAdapter, silentAudio, bindAudioEvents } from './core/audio';
+import gameEvents, { EventBus } from './core/events';
+import { ReplayController, Replay, ReplaySpeed, exportReplay, importReplay } from './core/replay';
+import { Plugin } from './core/systems';
+import profiler from './core/profiler';
+import { RenderSystem } from './core/render';
+import { MainScene } from './scenes/mainScene';
+import { isPickerOpen } from './ui/musicUploader';
+import { config } from './config';
+
+/**
+ * Drawing surface the engine renders each frame to
+ */
+export interface RendererAdapter {
+    ctx: CanvasRenderingContext2D;
+    width: number;
+    height: number;
+}
+
+export interface EngineOptions {
+    // skip the canvas, DOM listeners and UI widgets; drive the engine with step()
+    headless?: boolean;
+    // renderer to draw with; headless engines without one never render
+    renderer?: RendererAdapter | null;
+    input?: InputSystem;
+    audio?: AudioAdapter;
+    events?: EventBus;
+}
+
+export interface EngineState {
+    tick: number;
+    time: number;
+    scenes: string[];
+    suspended: boolean;
+}
 
 class GameEngine {
     private isRunning: boolean;
-    private canvas: HTMLCanvasElement;
-    private ctx: CanvasRenderingContext2D;
-    private scene: any;
+    private headless: boolean;
+    private canvas: HTMLCanvasElement | null = null;
+    private renderer: RendererAdapter | null;
+    private scenes: SceneManager;
+    private input: InputSystem;
+    private replays: ReplayController;
     private lastTime: number;
+    private timestep: FixedTimestep;
+    private tick: number = 0;
+    private suspended: boolean = false;
+    readonly context: SceneContext;
 
-    constructor() {
+    constructor(options: EngineOptions = {}) {
         this.isRunning = false;
-        this.canvas = document.createElement('canvas');
-        this.canvas.width = 640;
-        this.canvas.height = 360;
-        this.canvas.style.width = '100%';
-        this.canvas.style.height = 'auto';
-        document.body.appendChild(this.canvas);
+        this.headless = options.headless ?? false;
+        this.timestep = new FixedTimestep(config.loop.tickRate, config.loop.maxStepsPerFrame);
+        this.renderer = options.renderer ?? null;
+        if (!this.headless) {
+            this.canvas = this.createCanvas();
+            this.renderer = this.renderer ?? this.createRenderer(this.canvas);
+        }
+
+        this.scenes = new SceneManager();
+        this.input = options.input ?? new InputSystem(this.canvas ?? undefined);
+        this.replays = new ReplayController(this.input, config.loop.tickRate);
+        this.context = {
+            canvas: this.canvas,
+            input: this.input,
+            audio: options.audio ?? (this.headless ? silentAudio : audioManager),
+            scenes: this.scenes,
+            replays: this.replays,
+            // headless engines get their own bus so parallel runs don't hear each other
+            events: options.events ?? (this.headless ? new EventBus() : gameEvents),
+            plugins: [],
+            headless: this.headless,
+        };
+        this.lastTime = 0;
+        profiler.setEnabled(config.debug.profiler);
+
+        if (this.canvas) {
+            this.attachDomFeatures(this.canvas);
+            bindAudioEvents(this.context.events);
+        }
+    }
+
+    private createCanvas(): HTMLCanvasElement {
+        const canvas = document.createElement('canvas');
+        canvas.width = 640;
+        canvas.height = 360;
+        canvas.style.width = '100%';
+        canvas.style.height = 'auto';
+        document.body.appendChild(canvas);
+        return canvas;
+    }
+
+    private createRenderer(canvas: HTMLCanvasElement): RendererAdapter {
         let ctx: CanvasRenderingContext2D | null = null;
         try {
-            ctx = this.canvas.getContext('2d');
+            ctx = canvas.getContext('2d');
         } catch (e) {
             ctx = null;
         }
@@ -27,27 +108,47 @@ class GameEngine {
             ctx = ({
                 fillStyle: '#000',
                 fillRect: (_x: number, _y: number, _w: number, _h: number) => {},
+                fillText: () => {},
             } as unknown) as CanvasRenderingContext2D;
         }
-        this.ctx = ctx;
+        return { ctx, width: canvas.width, height: canvas.height };
+    }
 
-        // try to dynamically import the MainScene; if missing, use a minimal stub
-        this.scene = { update: (_dt: number) => {}, render: (_ctx: any) => {} };
+    private attachDomFeatures(canvas: HTMLCanvasElement) {
+        // try to dynamically import the TitleScene; if missing, the stack stays empty
         // @ts-ignore - optional runtime module, may not exist in test env
-        import('./scenes/mainScene').then(m => {
+        import('./scenes/titleScene').then(m => {
             try {
-                this.scene = new m.MainScene(this.canvas);
+                this.scenes.reset(new m.TitleScene(this.context));
             } catch (e) {
-                // keep stub
+                // keep empty stack
             }
         }).catch(() => {
-            // keep stub
+            // keep empty stack
+        });
+        // pause when the tab is hidden or the window loses focus; clicking the canvas
+        // resumes. The music file picker takes focus too, but only drops held keys
+        document.addEventListener('visibilitychange', () => {
+            if (document.hidden) this.suspend();
         });
+        window.addEventListener('blur', () => {
+            // keys held when focus was lost never see their keyup
+            if (this.input.isLive()) this.input.clear();
+            if (!isPickerOpen()) this.suspend();
+        });
+        canvas.addEventListener('click', () => this.resume());
         // allow drag-to-insert sprites onto the canvas
-        this.canvas.addEventListener('dragover', (ev) => ev.preventDefault());
-        this.canvas.addEventListener('drop', (ev: DragEvent) => {
+        canvas.addEventListener('dragover', (ev) => ev.preventDefault());
+        canvas.addEventListener('drop', (ev: DragEvent) => {
             ev.preventDefault();
             const dt = ev.dataTransfer;
+            // dropped replay files play back instead of spawning a sprite
+            if (dt && dt.files && dt.files.length > 0 && dt.files[0].name.endsWith('.json')) {
+                dt.files[0].text()
+                    .then(text => this.playReplay(importReplay(text)))
+                    .catch(e => console.warn('Failed to load replay', e));
+                return;
+            }
             let name = 'sprite';
             if (dt) {
                 if (dt.files && dt.files.length > 0) {
@@ -56,12 +157,12 @@ class GameEngine {
                     name = dt.getData('text/plain') || name;
                 }
             }
-            const rect = this.canvas.getBoundingClientRect();
+            const rect = canvas.getBoundingClientRect();
             const x = ev.clientX - rect.left;
             const y = ev.clientY - rect.top;
             // spawn placed sprite and dispatch event
             try {
-                Spawner.spawnSpriteAt(name, x, y);
+                Spawner.spawnSpriteAt(name, x, y, this.context.events);
             } catch (e) {
                 // ignore
             }
@@ -72,13 +173,12 @@ class GameEngine {
         // preload audio if available
         // @ts-ignore - optional runtime module, may not exist in test env
         import('./core/audio').then(a => a.loadDefaults()).catch(() => {/* ignore */});
-        this.lastTime = performance.now();
         // attach mobile controls when touch is available
         try {
             if ('ontouchstart' in window || navigator.maxTouchPoints > 0) {
                 // @ts-ignore - optional runtime module, may not exist in test env
                 import('./ui/joystick').then(m => {
-                    new m.VirtualJoystick(document.body);
+                    this.input.attachJoystick(new m.VirtualJoystick(document.body));
                     new m.ActionButton(document.body);
                     if (m.FireButton) new m.FireButton(document.body);
                 });
@@ -91,6 +191,24 @@ class GameEngine {
                 // expose for debug
                 (window as any).__spriteInspector = inspector;
             });
+            // F3 toggles the profiler graph; __profiler.export() returns a JSON trace.
+            // F4 toggles the collision layer matrix.
+            window.addEventListener('keydown', (e) => {
+                if (e.key === 'F3') profiler.toggleOverlay();
+                if (e.key === 'F4') config.debug.showCollisionMatrix = !config.debug.showCollisionMatrix;
+            });
+            (window as any).__profiler = {
+                export: () => profiler.exportTrace(),
+                toggle: () => profiler.toggleOverlay(),
+            };
+            // replay tools for QA: __replays.export() / __replays.play(json, speed)
+            (window as any).__replays = {
+                export: () => {
+                    const replay = this.replays.getLastRecording();
+                    return replay ? exportReplay(replay) : null;
+                },
+                play: (json: string, speed: ReplaySpeed = 1) => this.playReplay(importReplay(json), speed),
+            };
         } catch (e) {
             // ignore
         }
@@ -99,6 +217,7 @@ class GameEngine {
     start() {
         this.isRunning = true;
         this.lastTime = performance.now();
+        this.timestep.reset();
         requestAnimationFrame((t) => this.gameLoop(t));
     }
 
@@ -106,29 +225,154 @@ class GameEngine {
         this.isRunning = false;
     }
 
+    /**
+     * Advance the simulation by a number of fixed ticks without waiting for frames.
+     * Renders once afterwards when a renderer is attached.
+     */
+    step(ticks: number = 1) {
+        profiler.beginFrame();
+        for (let i = 0; i < ticks; i++) {
+            this.simulateTick();
+        }
+        this.render(1);
+        profiler.endFrame();
+    }
+
+    /**
+     * Register a plugin; its systems are installed into every gameplay scene created afterwards
+     */
+    use(plugin: Plugin) {
+        this.context.plugins.push(plugin);
+        return this;
+    }
+
+    /**
+     * Restart the run recorded in a replay and feed its input back at 1x/2x/4x
+     */
+    playReplay(replay: Replay, speed: ReplaySpeed = 1) {
+        this.replays.play(replay);
+        this.setTimeScale(speed);
+        this.scenes.reset(new MainScene(this.context, {
+            seed: replay.seed,
+            musicDuration: replay.musicDuration,
+            musicFileName: replay.musicFileName,
+        }));
+    }
+
+    /**
+     * Freeze simulation, scenes and audio until resume(); the game timer and
+     * music position stop together so they stay in sync
+     */
+    suspend() {
+        if (this.suspended) return;
+        this.suspended = true;
+        this.scenes.suspend();
+        this.context.audio.suspend();
+        // keys held when focus was lost never see their keyup
+        if (this.input.isLive()) this.input.clear();
+    }
+
+    resume() {
+        if (!this.suspended) return;
+        this.suspended = false;
+        this.context.audio.resume();
+        this.scenes.resume();
+        // don't simulate the time spent hidden
+        this.timestep.reset();
+        this.lastTime = performance.now();
+    }
+
+    isSuspended(): boolean {
+        return this.suspended;
+    }
+
+    setTimeScale(scale: number) {
+        this.timestep.timeScale = scale;
+    }
+
+    /**
+     * Snapshot of the engine for tests and tooling
+     */
+    getState(): EngineState {
+        return {
+            tick: this.tick,
+            time: this.tick * this.timestep.step,
+            scenes: this.scenes.getScenes().map(scene => scene.name),
+            suspended: this.suspended,
+        };
+    }
+
+    private simulateTick() {
+        if (this.suspended) return;
+        this.input.beginTick();
+        const wasPlaying = this.replays.isPlaying();
+        this.replays.tick();
+        if (wasPlaying && !this.replays.isPlaying()) {
+            // back to real time once the replay runs out
+            this.setTimeScale(1);
+        }
+        this.scenes.update(this.timestep.step);
+        // deliver events queued during the tick
+        this.context.events.flush();
+        this.input.endTick();
+        this.tick++;
+        profiler.tick();
+    }
+
+    private render(alpha: number) {
+        if (!this.renderer) return;
+        const { ctx, width, height } = this.renderer;
+
+        // clear
+        ctx.fillStyle = '#222';
+        ctx.fillRect(0, 0, width, height);
+
+        this.scenes.render(ctx, alpha);
+        if (this.suspended) {
+            this.renderSuspended(ctx, width, height);
+        }
+        profiler.renderOverlay(ctx, 10, height - 140);
+        if (config.debug.showCollisionMatrix) {
+            RenderSystem.renderCollisionMatrix(ctx, width - 160, 40);
+        }
+    }
+
+    private renderSuspended(ctx: CanvasRenderingContext2D, width: number, height: number) {
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(0, 0, width, height);
+        ctx.fillStyle = '#ffffff';
+        ctx.font = '24px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('Click to resume', width / 2, height / 2);
+    }
+
     private gameLoop(timestamp: number) {
         if (!this.isRunning) return;
-        const deltaTime = Math.min((timestamp - this.lastTime) / 1000, 0.05);
+        profiler.beginFrame();
+        const frameTime = (timestamp - this.lastTime) / 1000;
         this.lastTime = timestamp;
 
-        this.scene.update(deltaTime);
+        // simulate in fixed ticks so gameplay is independent of display refresh rate
+        const steps = this.suspended ? 0 : this.timestep.advance(frameTime);
+        for (let i = 0; i < steps; i++) {
+            this.simulateTick();
+        }
 
         // update optional inspector
         try {
             const insp = (window as any).__spriteInspector;
-            if (insp && typeof insp.update === 'function') insp.update(deltaTime);
+            if (insp && typeof insp.update === 'function') insp.update(frameTime);
         } catch (e) {
             // ignore
         }
 
-        // clear
-        this.ctx.fillStyle = '#222';
-        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-
-        this.scene.render(this.ctx);
+        // draw between the previous and current tick
+        this.render(this.timestep.alpha);
+        profiler.endFrame();
 
         requestAnimationFrame((t) => this.gameLoop(t));
     }
 }
 
-export default GameEngine;
\ No newline at end of file
+export default GameEngine;
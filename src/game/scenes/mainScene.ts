@@ -3,34 +3,71 @@
  * Core gameplay scene with player, enemies, and pickups
  */
 
-import { EntityManager, EntityFactory, Entity, HealthComponent } from '../core/entity';
+import {
+  EntityManager,
+  EntityFactory,
+  Entity,
+  Vector2,
+} from '../core/entity';
 import { PhysicsSystem } from '../core/physics';
 import { RenderSystem } from '../core/render';
 import { InputSystem } from '../core/input';
+import { Scene, SceneContext } from '../core/scene';
+import { SystemRegistry, World } from '../core/systems';
+import { EntityPool } from '../core/pool';
+import { CommandBuffer } from '../core/commands';
+import { Tilemap } from '../core/tilemap';
+import { EventBus } from '../core/events';
+import { applyDamage, applyHealing } from '../core/health';
+import rng, { resolveSeed } from '../core/random';
 import { config } from '../config';
-import audioManager from '../core/audio';
-import { MusicUploader } from '../ui/musicUploader';
+import roomData from '../data/rooms.json';
+import { PauseScene } from './pauseScene';
+import { GameOverScene, VictoryScene, RunResult } from './resultScene';
 
-export enum GameState {
-  PLAYING,
-  PAUSED,
-  GAME_OVER,
-  VICTORY,
-  AWAITING_MUSIC,
+export interface MainSceneOptions {
+  musicDuration: number;
+  musicFileName: string;
+  seed?: number; // defaults to resolveSeed()
 }
 
-export class MainScene {
-  private canvas: HTMLCanvasElement;
+export interface MainSceneState {
+  seed: number;
+  score: number;
+  currentRoom: number;
+  roomsCleared: number[];
+  flamesExtinguished: number;
+  totalFlames: number;
+  gameTimer: number;
+  playerHealth: number;
+  playerPosition: Vector2;
+  enemies: number;
+  finished: boolean;
+}
+
+export class MainScene implements Scene {
+  readonly name = 'main';
+  private context: SceneContext;
   private entityManager: EntityManager;
+  private pool: EntityPool;
+  private commands: CommandBuffer;
+  private rooms: Tilemap[];
+  private tilemap: Tilemap; // current room's walls and obstacles
   private inputSystem: InputSystem;
+  readonly systems: SystemRegistry = new SystemRegistry();
+  private world: World;
+  private events: EventBus;
+  private subscriptions: Array<() => void> = [];
   private player: Entity | null = null;
-  private gameState: GameState = GameState.AWAITING_MUSIC;
+  private started: boolean = false;
+  private finished: boolean = false;
   private score: number = 0;
   private enemySpawnTimer: number = 0;
   private pickupSpawnTimer: number = 0;
   private fps: number = 60;
   private frameCount: number = 0;
   private lastFpsUpdate: number = 0;
+  private lastRenderTime: number = 0;
   
   // Room system properties
   private currentRoom: number = 0;
@@ -38,51 +75,89 @@ export class MainScene {
   private enemiesSpawnedInRoom: number = 0;
   
   // Fire realm properties
-  private musicUploader: MusicUploader;
-  private musicDuration: number = 0;
+  private musicDuration: number;
   private gameTimer: number = 0;
   private flamesExtinguished: number = 0;
-  private totalFlames: number = 0;
-  private musicFileName: string = '';
+  private totalFlames: number;
+  private musicFileName: string;
+  private seed: number;
   
-  constructor(canvas: HTMLCanvasElement) {
-    this.canvas = canvas;
+  constructor(context: SceneContext, options: MainSceneOptions) {
+    this.context = context;
     this.entityManager = new EntityManager();
-    this.inputSystem = new InputSystem(canvas);
+    this.pool = new EntityPool(this.entityManager);
+    this.commands = new CommandBuffer(this.entityManager);
+    // rooms beyond the listed layouts reuse them in order
+    this.rooms = roomData.rooms.map(rows => Tilemap.fromJSON({ tileSize: roomData.tileSize, tiles: roomData.tiles, rows }));
+    this.tilemap = this.rooms[0];
+    this.inputSystem = context.input;
+    this.events = context.events;
+    this.world = { entities: this.entityManager, commands: this.commands, context };
+    this.musicDuration = options.musicDuration;
+    this.musicFileName = options.musicFileName;
+    
+    // Every random draw in this run comes from the seed, so it can be replayed
+    this.seed = options.seed ?? resolveSeed();
+    rng.reseed(this.seed);
+    
+    // Calculate total flames based on room setup
+    this.totalFlames = config.room.totalRooms * config.room.enemiesPerRoom;
+    
+    // Pre-create frequently spawned entities so spawning doesn't allocate mid-run
+    for (const [prefab, count] of Object.entries(config.pool.warmup)) {
+      this.pool.warm(prefab, count);
+    }
     
-    // Create music uploader UI
-    this.musicUploader = new MusicUploader(document.body);
-    this.musicUploader.setOnMusicLoaded((file) => this.handleMusicUpload(file));
+    this.registerSystems();
+    this.subscribe();
+    for (const plugin of context.plugins) {
+      this.systems.use(plugin, this.world);
+    }
     
     this.init();
   }
   
-  private async handleMusicUpload(file: File): Promise<void> {
-    try {
-      this.musicUploader.updateStatus('Loading music...', '#ffaa00');
-      const duration = await audioManager.loadBackgroundMusic(file);
-      this.musicDuration = duration;
-      this.musicFileName = file.name;
-      
-      // Calculate total flames based on duration and room setup
-      this.totalFlames = config.room.totalRooms * config.room.enemiesPerRoom;
-      
-      this.musicUploader.updateStatus(`Ready! Duration: ${Math.floor(duration)}s`, '#00ff00');
-      
-      // Hide uploader after brief delay and start game
-      setTimeout(() => {
-        this.musicUploader.hide();
-        this.startGame();
-      }, 2000);
-    } catch (e) {
-      this.musicUploader.updateStatus('Failed to load music. Try again.', '#ff0000');
-    }
+  enter(): void {
+    this.context.audio.playBackgroundMusic();
+    this.gameTimer = 0;
   }
   
-  private startGame(): void {
-    this.gameState = GameState.PLAYING;
-    audioManager.playBackgroundMusic();
-    this.gameTimer = 0;
+  exit(): void {
+    this.context.audio.stopBackgroundMusic();
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+    this.commands.clear();
+    this.entityManager.clear();
+    this.pool.clear();
+  }
+  
+  pause(): void {
+    this.context.audio.pauseBackgroundMusic();
+  }
+  
+  resume(): void {
+    // pick the music up where the game timer is, so neither drifts
+    this.context.audio.resumeBackgroundMusic(this.gameTimer);
+  }
+  
+  /**
+   * Scoring and run state react to gameplay events rather than collision code
+   */
+  private subscribe(): void {
+    this.subscriptions.push(
+      this.events.on('flame:extinguished', () => {
+        this.flamesExtinguished++;
+        this.score += 20;
+      }),
+      this.events.on('pickup:collected', () => {
+        this.score += 10;
+      }),
+      this.events.on('entity:died', ({ entity }) => {
+        if (entity === this.player) this.finish(false);
+      }),
+      this.events.on('collision:enter', ({ a, b }) => this.handleContact(a, b)),
+      RenderSystem.bindLoadedSprites(this.entityManager),
+    );
   }
   
   private init(): void {
@@ -92,46 +167,31 @@ export class MainScene {
     this.player = EntityFactory.createPlayer(centerX, centerY);
     this.entityManager.add(this.player);
     
-    // Setup player health callback
-    const health = this.player.getComponent<HealthComponent>('health');
-    if (health && health.onDeath) {
-      health.onDeath = () => {
-        this.gameState = GameState.GAME_OVER;
-      };
-    }
-    
     // Spawn initial enemies for current room
     this.spawnRoomEnemies();
     
     // Spawn initial pickups
     this.spawnPickup();
+    this.commands.apply();
   }
   
   update(dt: number): void {
-    // Handle awaiting music state
-    if (this.gameState === GameState.AWAITING_MUSIC) {
-      return;
-    }
-    
-    if (this.gameState === GameState.GAME_OVER || this.gameState === GameState.VICTORY) {
-      // Check for restart input
-      if (this.inputSystem.isKeyPressed('r')) {
-        this.restart();
-      }
-      return;
-    }
-    
-    if (this.gameState === GameState.PAUSED) {
-      // Check for unpause
-      if (this.inputSystem.isKeyPressed('p')) {
-        this.gameState = GameState.PLAYING;
-      }
-      return;
+    // Start-of-tick positions for render interpolation
+    RenderSystem.snapshot(this.entityManager.getAll());
+    
+    // Record this run's input from its first tick
+    if (!this.started) {
+      this.started = true;
+      this.context.replays.record({
+        seed: this.seed,
+        musicDuration: this.musicDuration,
+        musicFileName: this.musicFileName,
+      });
     }
     
     // Check for pause
-    if (this.inputSystem.isKeyPressed('p')) {
-      this.gameState = GameState.PAUSED;
+    if (this.inputSystem.isKeyJustPressed('p')) {
+      this.context.scenes.push(new PauseScene(this.context));
       return;
     }
     
@@ -141,75 +201,135 @@ export class MainScene {
     // Check if time is up
     if (this.musicDuration > 0 && this.gameTimer >= this.musicDuration) {
       // Time's up - check if all flames extinguished
-      if (this.flamesExtinguished >= this.totalFlames) {
-        this.gameState = GameState.VICTORY;
-      } else {
-        this.gameState = GameState.GAME_OVER;
-      }
-      audioManager.stopBackgroundMusic();
+      const victory = this.flamesExtinguished >= this.totalFlames;
+      this.events.emit('music:ended', { victory });
+      this.finish(victory);
       return;
     }
     
-    // Update player input
-    this.updatePlayerInput(dt);
-    
-    // Update music quality based on player health
-    if (this.player) {
-      const health = this.player.getComponent<HealthComponent>('health');
-      if (health) {
-        const healthPercent = health.current / health.max;
-        audioManager.updateMusicQuality(healthPercent);
-      }
+    // Run gameplay systems in pipeline order
+    this.systems.update(dt, this.world);
+  }
+  
+  render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+    // FPS counts rendered frames, not fixed simulation ticks
+    const now = performance.now();
+    if (this.lastRenderTime > 0) {
+      this.updateFPS((now - this.lastRenderTime) / 1000);
     }
+    this.lastRenderTime = now;
     
-    // Update physics
-    PhysicsSystem.update(this.entityManager.getAll(), dt);
-    
-    // Check collisions
-    this.handleCollisions();
-    
-    // Update entities
-    this.entityManager.update(dt);
-    
-    // Update enemy AI
-    this.updateEnemies(dt);
-    
-    // Check if room is cleared
-    this.checkRoomCleared();
-    
-    // Check for room transition input
-    this.handleRoomTransition();
+    this.systems.render(ctx, alpha, this.world);
+  }
+  
+  /**
+   * Built-in gameplay and rendering systems, in the order they used to run
+   */
+  private registerSystems(): void {
+    this.systems
+      .register({ name: 'playerInput', phase: 'input', update: (dt) => this.updatePlayerInput(dt) })
+      .register({ name: 'musicQuality', phase: 'preUpdate', update: () => this.updateMusicQuality() })
+      .register({
+        name: 'physics',
+        phase: 'physics',
+        update: (dt, world) => PhysicsSystem.update(world.entities.getAll(), dt, this.tilemap),
+      })
+      .register({
+        name: 'collisions',
+        phase: 'collision',
+        update: (dt, world) => PhysicsSystem.checkCollisions(world.entities, this.events),
+      })
+      .register({ name: 'entities', phase: 'update', update: (dt, world) => world.entities.update(dt) })
+      .register({ name: 'enemyAI', phase: 'ai', update: (dt) => this.updateEnemies(dt) })
+      .register({
+        name: 'rooms',
+        phase: 'postUpdate',
+        update: () => {
+          this.checkRoomCleared();
+          this.handleRoomTransition();
+        },
+      })
+      .register({ name: 'pickupSpawner', phase: 'postUpdate', update: (dt) => this.updatePickupSpawner(dt) })
+      .register({ name: 'background', phase: 'render', priority: -100, render: (ctx) => this.renderBackground(ctx) })
+      .register({ name: 'tilemap', phase: 'render', priority: -50, render: (ctx) => RenderSystem.renderTilemap(ctx, this.tilemap) })
+      .register({
+        name: 'sprites',
+        phase: 'render',
+        render: (ctx, alpha, world) => RenderSystem.render(ctx, world.entities.getAll(), alpha),
+      })
+      .register({ name: 'hud', phase: 'ui', render: (ctx) => this.renderUI(ctx) });
+  }
+  
+  private updateMusicQuality(): void {
+    // Update music quality based on player health
+    if (!this.player) return;
     
+    const health = this.player.getComponent('health');
+    if (health) {
+      const healthPercent = health.current / health.max;
+      this.context.audio.updateMusicQuality(healthPercent);
+    }
+  }
+  
+  private updatePickupSpawner(dt: number): void {
     // Spawn pickups periodically
     this.pickupSpawnTimer += dt;
     if (this.pickupSpawnTimer >= config.pickup.spawnInterval / 1000) {
       this.spawnPickup();
       this.pickupSpawnTimer = 0;
     }
-    
-    // Update FPS counter
-    this.updateFPS(dt);
   }
   
-  render(ctx: CanvasRenderingContext2D): void {
-    // Clear canvas with fire realm theme
-    if (this.gameState === GameState.AWAITING_MUSIC) {
-      RenderSystem.clear(ctx, config.canvas.width, config.canvas.height);
-    } else {
-      // Fire realm background - dark red/orange gradient
-      const gradient = ctx.createLinearGradient(0, 0, 0, config.canvas.height);
-      gradient.addColorStop(0, '#2a0a0a');
-      gradient.addColorStop(0.5, '#4a1010');
-      gradient.addColorStop(1, '#6a1a0a');
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
-    }
-    
-    // Render all entities
-    RenderSystem.render(ctx, this.entityManager.getAll());
-    
-    // Render UI
-    this.renderUI(ctx);
+  private renderBackground(ctx: CanvasRenderingContext2D): void {
+    // Fire realm background - dark red/orange gradient
+    const gradient = ctx.createLinearGradient(0, 0, 0, config.canvas.height);
+    gradient.addColorStop(0, '#2a0a0a');
+    gradient.addColorStop(0.5, '#4a1010');
+    gradient.addColorStop(1, '#6a1a0a');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
+  }
+  
+  /**
+   * Snapshot of gameplay progress for tests and tooling
+   */
+  getState(): MainSceneState {
+    const health = this.player?.getComponent('health');
+    const transform = this.player?.getComponent('transform');
+    return {
+      seed: this.seed,
+      score: this.score,
+      currentRoom: this.currentRoom,
+      roomsCleared: Array.from(this.roomsCleared),
+      flamesExtinguished: this.flamesExtinguished,
+      totalFlames: this.totalFlames,
+      gameTimer: this.gameTimer,
+      playerHealth: health ? health.current : 0,
+      playerPosition: transform ? { ...transform.position } : { x: 0, y: 0 },
+      enemies: this.entityManager.countByTag('enemy'),
+      finished: this.finished,
+    };
+  }
+  
+  /**
+   * End the run and show the victory or game over overlay
+   */
+  private finish(victory: boolean): void {
+    if (this.finished) return;
+    this.finished = true;
+    
+    this.context.audio.stopBackgroundMusic();
+    this.context.replays.stop();
+    
+    const result: RunResult = {
+      score: this.score,
+      flamesExtinguished: this.flamesExtinguished,
+      totalFlames: this.totalFlames,
+    };
+    const scene = victory
+      ? new VictoryScene(this.context, result)
+      : new GameOverScene(this.context, result);
+    this.context.scenes.push(scene);
   }
   
   private updatePlayerInput(_dt: number): void {
@@ -251,128 +371,77 @@ export class MainScene {
     }
   }
   
-  private handleCollisions(): void {
+  /**
+   * The player touching an enemy or pickup, on the step contact starts
+   */
+  private handleContact(a: Entity, b: Entity): void {
     if (!this.player) return;
-    
-    const entities = this.entityManager.getAll();
-    
-    for (const entity of entities) {
-      if (entity.id === 'player' || !entity.active) continue;
-      
-      if (PhysicsSystem.isColliding(this.player, entity)) {
-        const sprite = entity.getComponent('sprite');
-        
-        // Enemy collision (flames in fire realm)
-        if (sprite?.color === config.enemy.color) {
-          const health = this.player.getComponent<HealthComponent>('health');
-          if (health) {
-            health.current -= config.enemy.damage;
-            if (health.current <= 0) {
-              health.current = 0;
-              if (health.onDeath) {
-                health.onDeath();
-              }
-            }
-          }
-          // Remove enemy and count as flame extinguished
-          this.entityManager.remove(entity.id);
-          this.flamesExtinguished++;
-          this.score += 20;
-        }
-        
-        // Pickup collision (water/grass restoration)
-        if (sprite?.color === config.pickup.color) {
-          const health = this.player.getComponent<HealthComponent>('health');
-          if (health) {
-            health.current = Math.min(
-              health.current + config.pickup.healAmount,
-              health.max
-            );
-          }
-          this.score += 10;
-          this.entityManager.remove(entity.id);
-        }
+    const other = a === this.player ? b : b === this.player ? a : null;
+    if (!other) return;
+    
+    // Enemy collision (flames in fire realm)
+    if (other.hasTag('enemy')) {
+      applyDamage(this.player, config.enemy.damage, this.events, other);
+      // Count as flame extinguished, then remove enemy once the phase ends
+      if (other.hasTag('flame')) {
+        this.events.emit('flame:extinguished', { flame: other });
       }
+      this.commands.release(other, this.pool);
+    }
+    
+    // Pickup collision (water/grass restoration)
+    if (other.hasTag('pickup')) {
+      applyHealing(this.player, config.pickup.healAmount, this.events, other);
+      this.events.emit('pickup:collected', { pickup: other, collector: this.player });
+      this.commands.release(other, this.pool);
     }
   }
   
   private spawnEnemy(): void {
     // Random position at edge of screen
-    const side = Math.floor(Math.random() * 4);
+    const random = rng.stream('spawns');
+    const side = random.int(4);
     let x = 0;
     let y = 0;
     
     switch (side) {
       case 0: // Top
-        x = Math.random() * config.canvas.width;
+        x = random.next() * config.canvas.width;
         y = -config.enemy.size;
         break;
       case 1: // Right
         x = config.canvas.width;
-        y = Math.random() * config.canvas.height;
+        y = random.next() * config.canvas.height;
         break;
       case 2: // Bottom
-        x = Math.random() * config.canvas.width;
+        x = random.next() * config.canvas.width;
         y = config.canvas.height;
         break;
       case 3: // Left
         x = -config.enemy.size;
-        y = Math.random() * config.canvas.height;
+        y = random.next() * config.canvas.height;
         break;
     }
     
-    const enemy = EntityFactory.createEnemy(x, y);
-    this.entityManager.add(enemy);
+    this.pool.acquire('flame', x, y, this.commands);
   }
   
   private spawnPickup(): void {
-    // Random position on screen
-    const x = Math.random() * (config.canvas.width - config.pickup.size);
-    const y = Math.random() * (config.canvas.height - config.pickup.size);
+    // Random position on screen, re-rolled a few times to keep it out of walls
+    const random = rng.stream('loot');
+    const size = config.pickup.size;
+    let x = 0;
+    let y = 0;
+    for (let attempt = 0; attempt < 10; attempt++) {
+      x = random.next() * (config.canvas.width - size);
+      y = random.next() * (config.canvas.height - size);
+      if (!this.tilemap.overlapsSolid({ x, y, width: size, height: size })) break;
+    }
     
-    const pickup = EntityFactory.createPickup(x, y);
-    this.entityManager.add(pickup);
+    this.pool.acquire('pickup', x, y, this.commands);
   }
   
   private renderUI(ctx: CanvasRenderingContext2D): void {
-    // Render awaiting music screen
-    if (this.gameState === GameState.AWAITING_MUSIC) {
-      ctx.save();
-      ctx.fillStyle = 'rgba(20, 10, 0, 0.9)';
-      ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
-      
-      RenderSystem.renderText(ctx, '🔥 ANCIENT FIRE REALM 🔥', config.canvas.width / 2, config.canvas.height / 2 - 80, {
-        color: '#ff6600',
-        fontSize: 36,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, 'Upload a song to begin your quest', config.canvas.width / 2, config.canvas.height / 2 - 20, {
-        color: '#ffffff',
-        fontSize: 18,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, 'Song length = Time to extinguish all flames', config.canvas.width / 2, config.canvas.height / 2 + 10, {
-        color: '#aaaaaa',
-        fontSize: 14,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, 'Music degrades as you weaken, recovers as you heal', config.canvas.width / 2, config.canvas.height / 2 + 35, {
-        color: '#aaaaaa',
-        fontSize: 14,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      ctx.restore();
-      return;
-    }
-    
     // Render score
     RenderSystem.renderText(ctx, `Score: ${this.score}`, 10, 10, {
       color: '#ffffff',
@@ -402,6 +471,21 @@ export class MainScene {
       align: 'center',
     });
     
+    // Render run seed so players can share and replay it
+    RenderSystem.renderText(ctx, `Seed: ${this.seed}`, config.canvas.width - 10, 10, {
+      color: '#888888',
+      fontSize: 12,
+      align: 'right',
+    });
+    
+    if (this.context.replays.isPlaying()) {
+      RenderSystem.renderText(ctx, '▶ REPLAY', config.canvas.width - 10, 25, {
+        color: '#ffaa00',
+        fontSize: 12,
+        align: 'right',
+      });
+    }
+    
     // Render room information
     RenderSystem.renderText(ctx, `Realm: ${this.currentRoom + 1}/${config.room.totalRooms}`, 10, 85, {
       color: '#ffffff',
@@ -434,7 +518,7 @@ export class MainScene {
     
     // Render health bar
     if (this.player) {
-      const health = this.player.getComponent<HealthComponent>('health');
+      const health = this.player.getComponent('health');
       if (health) {
         RenderSystem.renderHealthBar(
           ctx,
@@ -452,110 +536,6 @@ export class MainScene {
     if (config.debug.showFPS) {
       RenderSystem.renderFPS(ctx, this.fps);
     }
-    
-    // Render victory screen
-    if (this.gameState === GameState.VICTORY) {
-      ctx.save();
-      ctx.fillStyle = 'rgba(0, 50, 0, 0.8)';
-      ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
-      
-      RenderSystem.renderText(ctx, '🌿 VICTORY! 🌿', config.canvas.width / 2, config.canvas.height / 2 - 60, {
-        color: '#00ff00',
-        fontSize: 48,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, 'The Fire Realm is Restored!', config.canvas.width / 2, config.canvas.height / 2 - 10, {
-        color: '#88ff88',
-        fontSize: 24,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, `Flames Extinguished: ${this.flamesExtinguished}/${this.totalFlames}`, config.canvas.width / 2, config.canvas.height / 2 + 20, {
-        color: '#ffffff',
-        fontSize: 20,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, `Final Score: ${this.score}`, config.canvas.width / 2, config.canvas.height / 2 + 50, {
-        color: '#ffffff',
-        fontSize: 20,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, 'Press R to Restart', config.canvas.width / 2, config.canvas.height / 2 + 90, {
-        color: '#00ff00',
-        fontSize: 18,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      ctx.restore();
-    }
-    
-    // Render game over screen
-    if (this.gameState === GameState.GAME_OVER) {
-      ctx.save();
-      ctx.fillStyle = 'rgba(50, 0, 0, 0.8)';
-      ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
-      
-      RenderSystem.renderText(ctx, '🔥 TIME\'S UP! 🔥', config.canvas.width / 2, config.canvas.height / 2 - 60, {
-        color: '#ff0000',
-        fontSize: 48,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, 'The Fire Realm Consumes All', config.canvas.width / 2, config.canvas.height / 2 - 10, {
-        color: '#ff8888',
-        fontSize: 24,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, `Flames Extinguished: ${this.flamesExtinguished}/${this.totalFlames}`, config.canvas.width / 2, config.canvas.height / 2 + 20, {
-        color: '#ffffff',
-        fontSize: 20,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, `Final Score: ${this.score}`, config.canvas.width / 2, config.canvas.height / 2 + 50, {
-        color: '#ffffff',
-        fontSize: 20,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      RenderSystem.renderText(ctx, 'Press R to Restart', config.canvas.width / 2, config.canvas.height / 2 + 90, {
-        color: '#ff0000',
-        fontSize: 18,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      ctx.restore();
-    }
-    
-    // Render pause screen
-    if (this.gameState === GameState.PAUSED) {
-      ctx.save();
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-      ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
-      
-      RenderSystem.renderText(ctx, 'PAUSED', config.canvas.width / 2, config.canvas.height / 2, {
-        color: '#ffffff',
-        fontSize: 48,
-        align: 'center',
-        baseline: 'middle',
-      });
-      
-      ctx.restore();
-    }
   }
   
   private updateFPS(dt: number): void {
@@ -578,19 +558,14 @@ export class MainScene {
   }
   
   private getEnemies(): Entity[] {
-    return this.entityManager.getAll().filter(e => 
-      e.id !== 'player' && e.hasComponent('physics') && 
-      e.getComponent('sprite')?.color === config.enemy.color
-    );
+    return this.entityManager.getByTag('enemy');
   }
   
   private checkRoomCleared(): void {
-    // Count remaining enemies
-    const enemies = this.getEnemies();
-    
     // If all enemies defeated and room not already cleared
-    if (enemies.length === 0 && this.enemiesSpawnedInRoom > 0 && !this.roomsCleared.has(this.currentRoom)) {
+    if (this.entityManager.countByTag('enemy') === 0 && this.enemiesSpawnedInRoom > 0 && !this.roomsCleared.has(this.currentRoom)) {
       this.roomsCleared.add(this.currentRoom);
+      this.events.queue('room:cleared', { room: this.currentRoom });
     }
   }
   
@@ -613,43 +588,42 @@ export class MainScene {
     }
   }
   
+  /**
+   * Move an entity to the nearest spot clear of the current room's walls, e.g.
+   * when a new room has walls where it stood
+   */
+  private moveOutOfWalls(entity: Entity): void {
+    const transform = entity.getComponent('transform');
+    const box = PhysicsSystem.getAABB(entity);
+    if (!transform || !box) return;
+    
+    const open = this.tilemap.findOpenPosition(box);
+    if (!open || (open.x === box.x && open.y === box.y)) return;
+    
+    transform.position.x += open.x - box.x;
+    transform.position.y += open.y - box.y;
+    // a teleport, so don't draw it sliding across the room
+    transform.previousPosition = { x: transform.position.x, y: transform.position.y };
+    PhysicsSystem.refresh(entity);
+  }
+  
   private transitionToRoom(roomNumber: number): void {
     // Clear current room enemies
     const enemies = this.getEnemies();
-    enemies.forEach(enemy => this.entityManager.remove(enemy.id));
+    enemies.forEach(enemy => this.commands.release(enemy, this.pool));
     
     // Update current room
     this.currentRoom = roomNumber;
+    this.tilemap = this.rooms[roomNumber % this.rooms.length];
     this.enemiesSpawnedInRoom = 0;
+    if (this.player) {
+      this.moveOutOfWalls(this.player);
+    }
+    this.events.emit('room:entered', { room: roomNumber });
     
     // Spawn enemies if room not cleared yet (immediate respawn)
     if (!this.roomsCleared.has(this.currentRoom)) {
       this.spawnRoomEnemies();
     }
   }
-  
-  private restart(): void {
-    this.entityManager.clear();
-    this.gameState = GameState.AWAITING_MUSIC;
-    this.score = 0;
-    this.enemySpawnTimer = 0;
-    this.pickupSpawnTimer = 0;
-    this.currentRoom = 0;
-    this.roomsCleared.clear();
-    this.enemiesSpawnedInRoom = 0;
-    this.gameTimer = 0;
-    this.flamesExtinguished = 0;
-    this.musicDuration = 0;
-    this.musicFileName = '';
-    this.inputSystem.clear();
-    
-    // Stop any playing music
-    audioManager.stopBackgroundMusic();
-    
-    // Show music uploader again
-    this.musicUploader.show();
-    this.musicUploader.updateStatus('No music selected', '#aaaaaa');
-    
-    this.init();
-  }
-}
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * Pause Scene
+ * Transparent overlay that freezes the gameplay scene beneath it
+ */
+
+import { Scene, SceneContext } from '../core/scene';
+import { RenderSystem } from '../core/render';
+import { config } from '../config';
+
+export class PauseScene implements Scene {
+  readonly name = 'pause';
+  readonly transparent = true;
+  private context: SceneContext;
+
+  constructor(context: SceneContext) {
+    this.context = context;
+  }
+
+  update(): void {
+    // Check for unpause
+    if (this.context.input.isKeyJustPressed('p')) {
+      this.context.scenes.pop();
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
+
+    RenderSystem.renderText(ctx, 'PAUSED', config.canvas.width / 2, config.canvas.height / 2, {
+      color: '#ffffff',
+      fontSize: 48,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    ctx.restore();
+  }
+}
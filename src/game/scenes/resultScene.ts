@@ -0,0 +1,130 @@
+/**
+ * Result Scenes
+ * Victory and game over overlays shown when a run ends
+ */
+
+import { Scene, SceneContext } from '../core/scene';
+import { RenderSystem } from '../core/render';
+import { config } from '../config';
+import { downloadReplay } from '../core/replay';
+import { TitleScene } from './titleScene';
+
+export interface RunResult {
+  score: number;
+  flamesExtinguished: number;
+  totalFlames: number;
+}
+
+interface ResultTheme {
+  title: string;
+  subtitle: string;
+  overlay: string;
+  titleColor: string;
+  subtitleColor: string;
+}
+
+abstract class ResultScene implements Scene {
+  abstract readonly name: string;
+  readonly transparent = true;
+  protected abstract readonly theme: ResultTheme;
+  private context: SceneContext;
+  private result: RunResult;
+
+  constructor(context: SceneContext, result: RunResult) {
+    this.context = context;
+    this.result = result;
+  }
+
+  update(): void {
+    // Check for restart input
+    if (this.context.input.isKeyJustPressed('r')) {
+      this.context.input.clear();
+      this.context.scenes.reset(new TitleScene(this.context), { type: 'fade' });
+      return;
+    }
+
+    // Save the run for bug reports
+    const replay = this.context.replays.getLastRecording();
+    if (replay && !this.context.headless && this.context.input.isKeyJustPressed('s')) {
+      downloadReplay(replay);
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    const theme = this.theme;
+    const centerX = config.canvas.width / 2;
+    const centerY = config.canvas.height / 2;
+
+    ctx.save();
+    ctx.fillStyle = theme.overlay;
+    ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
+
+    RenderSystem.renderText(ctx, theme.title, centerX, centerY - 60, {
+      color: theme.titleColor,
+      fontSize: 48,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    RenderSystem.renderText(ctx, theme.subtitle, centerX, centerY - 10, {
+      color: theme.subtitleColor,
+      fontSize: 24,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    RenderSystem.renderText(ctx, `Flames Extinguished: ${this.result.flamesExtinguished}/${this.result.totalFlames}`, centerX, centerY + 20, {
+      color: '#ffffff',
+      fontSize: 20,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    RenderSystem.renderText(ctx, `Final Score: ${this.result.score}`, centerX, centerY + 50, {
+      color: '#ffffff',
+      fontSize: 20,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    RenderSystem.renderText(ctx, 'Press R to Restart', centerX, centerY + 90, {
+      color: theme.titleColor,
+      fontSize: 18,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    if (!this.context.headless && this.context.replays.getLastRecording()) {
+      RenderSystem.renderText(ctx, 'Press S to save replay', centerX, centerY + 115, {
+        color: '#cccccc',
+        fontSize: 14,
+        align: 'center',
+        baseline: 'middle',
+      });
+    }
+
+    ctx.restore();
+  }
+}
+
+export class VictoryScene extends ResultScene {
+  readonly name = 'victory';
+  protected readonly theme: ResultTheme = {
+    title: '🌿 VICTORY! 🌿',
+    subtitle: 'The Fire Realm is Restored!',
+    overlay: 'rgba(0, 50, 0, 0.8)',
+    titleColor: '#00ff00',
+    subtitleColor: '#88ff88',
+  };
+}
+
+export class GameOverScene extends ResultScene {
+  readonly name = 'gameOver';
+  protected readonly theme: ResultTheme = {
+    title: '🔥 TIME\'S UP! 🔥',
+    subtitle: 'The Fire Realm Consumes All',
+    overlay: 'rgba(50, 0, 0, 0.8)',
+    titleColor: '#ff0000',
+    subtitleColor: '#ff8888',
+  };
+}
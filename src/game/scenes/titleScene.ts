@@ -0,0 +1,109 @@
+/**
+ * Title Scene
+ * Waits for the player to upload a song, then starts the fire realm
+ */
+
+import { Scene, SceneContext } from '../core/scene';
+import { RenderSystem } from '../core/render';
+import { config } from '../config';
+import { MusicUploader } from '../ui/musicUploader';
+import { MainScene } from './mainScene';
+
+// one uploader shared by every title screen, so returning to the title doesn't add another
+let sharedUploader: MusicUploader | null = null;
+
+export class TitleScene implements Scene {
+  readonly name = 'title';
+  private context: SceneContext;
+  private musicUploader: MusicUploader | null = null;
+
+  constructor(context: SceneContext) {
+    this.context = context;
+
+    // Create music uploader UI (headless runs start games with startRun instead)
+    if (!context.headless) {
+      if (!sharedUploader) {
+        sharedUploader = new MusicUploader(document.body);
+        sharedUploader.hide();
+      }
+      this.musicUploader = sharedUploader;
+    }
+  }
+
+  enter(): void {
+    this.musicUploader?.setOnMusicLoaded((file) => this.handleMusicUpload(file));
+    this.musicUploader?.show();
+    this.musicUploader?.updateStatus('No music selected', '#aaaaaa');
+  }
+
+  exit(): void {
+    this.musicUploader?.hide();
+  }
+
+  /**
+   * Begin a run lasting the given song duration
+   */
+  startRun(musicDuration: number, musicFileName: string): void {
+    const scene = new MainScene(this.context, { musicDuration, musicFileName });
+    this.context.scenes.replace(scene, { type: 'fade' });
+  }
+
+  private async handleMusicUpload(file: File): Promise<void> {
+    const uploader = this.musicUploader;
+    if (!uploader) return;
+
+    try {
+      uploader.updateStatus('Loading music...', '#ffaa00');
+      const duration = await this.context.audio.loadBackgroundMusic(file);
+
+      uploader.updateStatus(`Ready! Duration: ${Math.floor(duration)}s`, '#00ff00');
+
+      // Hide uploader after brief delay and start game
+      setTimeout(() => this.startRun(duration, file.name), 2000);
+    } catch (e) {
+      uploader.updateStatus('Failed to load music. Try again.', '#ff0000');
+    }
+  }
+
+  update(): void {
+    // Nothing to simulate until music is loaded
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    RenderSystem.clear(ctx, config.canvas.width, config.canvas.height);
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(20, 10, 0, 0.9)';
+    ctx.fillRect(0, 0, config.canvas.width, config.canvas.height);
+
+    RenderSystem.renderText(ctx, '🔥 ANCIENT FIRE REALM 🔥', config.canvas.width / 2, config.canvas.height / 2 - 80, {
+      color: '#ff6600',
+      fontSize: 36,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    RenderSystem.renderText(ctx, 'Upload a song to begin your quest', config.canvas.width / 2, config.canvas.height / 2 - 20, {
+      color: '#ffffff',
+      fontSize: 18,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    RenderSystem.renderText(ctx, 'Song length = Time to extinguish all flames', config.canvas.width / 2, config.canvas.height / 2 + 10, {
+      color: '#aaaaaa',
+      fontSize: 14,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    RenderSystem.renderText(ctx, 'Music degrades as you weaken, recovers as you heal', config.canvas.width / 2, config.canvas.height / 2 + 35, {
+      color: '#aaaaaa',
+      fontSize: 14,
+      align: 'center',
+      baseline: 'middle',
+    });
+
+    ctx.restore();
+  }
+}
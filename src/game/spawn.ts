@@ -1,3 +1,5 @@
+import gameEvents, { EventBus } from './core/events';
+
 export type PlacedSprite = { name: string; x: number; y: number };
 
 const placedSprites: PlacedSprite[] = [];
@@ -10,16 +12,11 @@ export function clearPlacedSprites() {
   placedSprites.length = 0;
 }
 
-export function spawnSpriteAt(name: string, x: number, y: number) {
+export function spawnSpriteAt(name: string, x: number, y: number, events: EventBus = gameEvents) {
   const sprite = { name, x, y };
   placedSprites.push(sprite);
-  // Dispatch a DOM event so other parts of the app can listen
-  try {
-    const ev = new CustomEvent('spriteSpawned', { detail: sprite });
-    if (typeof document !== 'undefined' && document.dispatchEvent) document.dispatchEvent(ev);
-  } catch (e) {
-    // ignore
-  }
+  // Let other parts of the app react to the placement
+  events.emit('sprite:spawned', sprite);
   return sprite;
 }
 
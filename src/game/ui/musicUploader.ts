@@ -3,6 +3,16 @@
  * Allows users to upload background music for the fire realm challenge
  */
 
+// whether a file dialog opened from an uploader is showing; it takes the page's focus
+let pickerOpen = false;
+
+/**
+ * Whether the music file dialog is open, so losing focus to it isn't the player leaving
+ */
+export function isPickerOpen(): boolean {
+  return pickerOpen;
+}
+
 export class MusicUploader {
   private container: HTMLDivElement;
   private fileInput: HTMLInputElement;
@@ -33,7 +43,17 @@ export class MusicUploader {
     this.fileInput.type = 'file';
     this.fileInput.accept = 'audio/*';
     this.fileInput.style.display = 'none';
-    this.fileInput.addEventListener('change', () => this.handleFileSelect());
+    this.fileInput.addEventListener('change', () => {
+      pickerOpen = false;
+      this.handleFileSelect();
+    });
+    this.fileInput.addEventListener('cancel', () => {
+      pickerOpen = false;
+    });
+    // focus comes back once the dialog closes, however it was closed
+    window.addEventListener('focus', () => {
+      pickerOpen = false;
+    });
     
     // Create upload button
     this.uploadButton = document.createElement('button');
@@ -46,7 +66,10 @@ export class MusicUploader {
     this.uploadButton.style.cursor = 'pointer';
     this.uploadButton.style.fontSize = '14px';
     this.uploadButton.style.fontWeight = 'bold';
-    this.uploadButton.addEventListener('click', () => this.fileInput.click());
+    this.uploadButton.addEventListener('click', () => {
+      pickerOpen = true;
+      this.fileInput.click();
+    });
     this.uploadButton.addEventListener('mouseenter', () => {
       this.uploadButton.style.background = '#ff8555';
     });
@@ -0,0 +1,105 @@
+/**
+ * Sprite Asset Tests
+ * Tests for loading sprites and falling back when their files are missing
+ */
+
+import { getSprite, loadSprite } from '../src/game/core/assets';
+import { RenderSystem } from '../src/game/core/render';
+import { EntityFactory, EntityManager } from '../src/game/core/entity';
+import { EntityPool } from '../src/game/core/pool';
+import { Tilemap } from '../src/game/core/tilemap';
+import roomData from '../src/game/data/rooms.json';
+import { config } from '../src/game/config';
+
+// jsdom never loads images, so stand in for one that fails or succeeds by its path
+class FakeImage {
+  onload?: () => void;
+  onerror?: () => void;
+  private path = '';
+
+  get src(): string {
+    return this.path;
+  }
+
+  set src(path: string) {
+    this.path = path;
+    setTimeout(() => (path.startsWith('missing') ? this.onerror?.() : this.onload?.()));
+  }
+}
+
+function fakeContext() {
+  return {
+    fillStyle: '',
+    save: jest.fn(),
+    restore: jest.fn(),
+    translate: jest.fn(),
+    rotate: jest.fn(),
+    scale: jest.fn(),
+    fillRect: jest.fn(),
+    drawImage: jest.fn(),
+  };
+}
+
+describe('Sprite assets', () => {
+  const RealImage = window.Image;
+
+  beforeEach(() => {
+    window.Image = FakeImage as unknown as typeof Image;
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(fakeContext() as unknown as CanvasRenderingContext2D);
+    jest.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:');
+  });
+
+  afterEach(() => {
+    window.Image = RealImage;
+    jest.restoreAllMocks();
+  });
+
+  test('sprites whose file is missing are drawn in their color', async () => {
+    const placeholder = await loadSprite('pickup', 'missing/pickup.svg');
+    expect(placeholder).toBeDefined();
+    expect(getSprite('pickup')).toBeUndefined();
+
+    const pickup = EntityFactory.createPickup(0, 0);
+    expect(pickup.getComponent('sprite')!.image).toBeUndefined();
+
+    const ctx = fakeContext();
+    RenderSystem.render(ctx as unknown as CanvasRenderingContext2D, [pickup]);
+    expect(ctx.drawImage).not.toHaveBeenCalled();
+    expect(ctx.fillStyle).toBe(config.pickup.color);
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, config.pickup.size, config.pickup.size);
+  });
+
+  test('wall tiles whose sprite is missing are drawn in their color', async () => {
+    await loadSprite('wall', 'missing/wall.svg');
+    const room = Tilemap.fromJSON({ tileSize: roomData.tileSize, tiles: roomData.tiles, rows: ['#.'] });
+
+    const ctx = fakeContext();
+    RenderSystem.renderTilemap(ctx as unknown as CanvasRenderingContext2D, room);
+    expect(ctx.drawImage).not.toHaveBeenCalled();
+    expect(ctx.fillStyle).toBe(roomData.tiles['#'].color);
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, roomData.tileSize, roomData.tileSize);
+  });
+
+  test('sprites that load are bound to new entities', async () => {
+    const image = await loadSprite('enemy', 'sprites/enemy.svg');
+    expect(getSprite('enemy')).toBe(image);
+    expect(EntityFactory.createEnemy(0, 0).getComponent('sprite')!.image).toBe(image);
+  });
+
+  test('entities made before their sprite loads pick it up when it does', async () => {
+    const manager = new EntityManager();
+    const pool = new EntityPool(manager);
+    const early = EntityFactory.createPlayer(0, 0);
+    manager.add(early);
+    const stop = RenderSystem.bindLoadedSprites(manager);
+
+    const image = await loadSprite('player', 'sprites/player.svg');
+    stop();
+    expect(early.getComponent('sprite')!.image).toBe(image);
+
+    // pooled entities get it back after their components are reset
+    const player = pool.acquire('player', 0, 0);
+    pool.release(player);
+    expect(pool.acquire('player', 0, 0).getComponent('sprite')!.image).toBe(image);
+  });
+});
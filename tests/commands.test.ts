@@ -0,0 +1,132 @@
+/**
+ * Command Buffer Tests
+ * Tests for deferred structural changes and stable entity iteration
+ */
+
+import { Entity, EntityFactory, EntityManager, HealthComponent } from '../src/game/core/entity';
+import { CommandBuffer } from '../src/game/core/commands';
+import { EntityPool } from '../src/game/core/pool';
+import { SystemRegistry, World } from '../src/game/core/systems';
+
+describe('CommandBuffer', () => {
+  let manager: EntityManager;
+  let commands: CommandBuffer;
+
+  beforeEach(() => {
+    manager = new EntityManager();
+    commands = new CommandBuffer(manager);
+  });
+
+  test('defers spawns, removals and component changes until applied', () => {
+    const doomed = new Entity('doomed');
+    manager.add(doomed);
+    const spawned = EntityFactory.createEnemy(0, 0);
+
+    commands.spawn(spawned);
+    commands.remove(doomed);
+    commands.addComponent(spawned, { type: 'health', current: 1, max: 1 } as HealthComponent);
+    commands.removeComponent(spawned, 'sprite');
+
+    expect(commands.size).toBe(4);
+    expect(manager.getAll()).toEqual([doomed]);
+    expect(spawned.hasComponent('health')).toBe(false);
+
+    commands.apply();
+    expect(commands.size).toBe(0);
+    expect(manager.getAll()).toEqual([spawned]);
+    expect(doomed.active).toBe(false);
+    expect(spawned.hasComponent('health')).toBe(true);
+    expect(spawned.hasComponent('sprite')).toBe(false);
+  });
+
+  test('ignores removing an entity twice', () => {
+    const entity = new Entity('twice');
+    manager.add(entity);
+    commands.remove(entity);
+    commands.remove(entity);
+    commands.apply();
+
+    // a new entity reusing the id must survive the stale removal
+    const replacement = new Entity('twice');
+    manager.add(replacement);
+    commands.remove(entity);
+    commands.apply();
+    expect(manager.get('twice')).toBe(replacement);
+  });
+
+  test('releases pooled entities and queues pooled spawns', () => {
+    const pool = new EntityPool(manager);
+    const flame = pool.acquire('flame', 0, 0, commands);
+    expect(manager.size).toBe(0);
+    commands.apply();
+    expect(manager.getByTag('enemy')).toEqual([flame]);
+
+    commands.release(flame, pool);
+    expect(manager.size).toBe(1);
+    commands.apply();
+    expect(manager.size).toBe(0);
+    expect(pool.getStats('flame').available).toBe(1);
+  });
+
+  test('commands queued while applying wait for the next apply', () => {
+    const child = new Entity('child');
+    // releasing into this pool spawns another entity
+    const pool = { release: () => commands.spawn(child) } as unknown as EntityPool;
+    commands.release(new Entity('parent'), pool);
+
+    commands.apply();
+    expect(manager.get('child')).toBeUndefined();
+    expect(commands.size).toBe(1);
+    commands.apply();
+    expect(manager.get('child')).toBe(child);
+  });
+
+  test('clear drops queued commands', () => {
+    commands.spawn(new Entity('never'));
+    commands.clear();
+    commands.apply();
+    expect(manager.size).toBe(0);
+  });
+});
+
+describe('EntityManager iteration', () => {
+  test('entities added or removed mid-update take effect next update', () => {
+    const manager = new EntityManager();
+    const visited: string[] = [];
+    const late = new Entity('late');
+    const victim = new Entity('victim');
+    late.addComponent({ type: 'log', update: () => visited.push('late') });
+    victim.addComponent({ type: 'log', update: () => visited.push('victim') });
+
+    const first = new Entity('first');
+    first.addComponent({
+      type: 'log',
+      update: () => {
+        visited.push('first');
+        manager.add(late);
+        manager.detach('victim');
+      },
+    });
+    manager.add(first);
+    manager.add(victim);
+
+    manager.update(1 / 60);
+    expect(visited).toEqual(['first', 'victim']);
+  });
+});
+
+describe('SystemRegistry sync points', () => {
+  test('applies queued commands at the end of each phase', () => {
+    const entities = new EntityManager();
+    const world = { entities, commands: new CommandBuffer(entities) } as World;
+    const seen: number[] = [];
+
+    new SystemRegistry()
+      .register({ name: 'spawner', phase: 'collision', update: (_dt, w) => { w.commands.spawn(new Entity()); } })
+      .register({ name: 'sameCollision', phase: 'collision', priority: 1, update: (_dt, w) => { seen.push(w.entities.size); } })
+      .register({ name: 'nextPhase', phase: 'update', update: (_dt, w) => { seen.push(w.entities.size); } })
+      .update(1 / 60, world);
+
+    expect(seen).toEqual([0, 1]);
+  });
+});
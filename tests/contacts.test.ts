@@ -0,0 +1,123 @@
+/**
+ * Contact Tracking Tests
+ * Tests for enter/stay/exit collision reporting across physics steps
+ */
+
+import { ContactTracker } from '../src/game/core/contacts';
+import { PhysicsSystem } from '../src/game/core/physics';
+import { EventBus } from '../src/game/core/events';
+import { Entity, EntityManager, TransformComponent, ColliderComponent } from '../src/game/core/entity';
+
+describe('ContactTracker', () => {
+  test('tells new contacts from continuing ones and ends untouched pairs', () => {
+    const contacts = new ContactTracker<string>();
+
+    expect(contacts.touch('a', 'b')).toBe(true);
+    expect(contacts.touch('a', 'c')).toBe(true);
+    expect(contacts.step()).toEqual([]);
+
+    expect(contacts.touch('b', 'a')).toBe(false);
+    expect(contacts.untouched()).toEqual([['a', 'c']]);
+    expect(contacts.step()).toEqual([['a', 'c']]);
+    expect(contacts.isTouching('a', 'c')).toBe(false);
+    expect(contacts.getContacts('a')).toEqual(['b']);
+  });
+
+  test('forgotten items end their contacts on the next step', () => {
+    const contacts = new ContactTracker<string>();
+    contacts.touch('a', 'b');
+    contacts.step();
+
+    contacts.forget('b');
+    expect(contacts.size).toBe(0);
+    expect(contacts.step()).toEqual([['a', 'b']]);
+    expect(contacts.touch('a', 'b')).toBe(true);
+
+    contacts.forget('b');
+    expect(contacts.takeForgotten()).toEqual([['a', 'b']]);
+    expect(contacts.touch('a', 'b')).toBe(true);
+    expect(contacts.step()).toEqual([]);
+  });
+});
+
+describe('PhysicsSystem contact events', () => {
+  let manager: EntityManager;
+  let events: EventBus;
+  let log: string[];
+
+  function box(id: string, x: number, isTrigger: boolean): Entity {
+    const entity = new Entity(id);
+    entity.addComponent({ type: 'transform', position: { x, y: 0 }, rotation: 0, scale: { x: 1, y: 1 } } as TransformComponent);
+    entity.addComponent({ type: 'collider', width: 20, height: 20, isTrigger } as ColliderComponent);
+    manager.add(entity);
+    return entity;
+  }
+
+  function moveTo(entity: Entity, x: number): void {
+    entity.getComponent('transform')!.position.x = x;
+    PhysicsSystem.refresh(entity);
+  }
+
+  beforeEach(() => {
+    manager = new EntityManager();
+    events = new EventBus();
+    log = [];
+    for (const phase of ['enter', 'stay', 'exit'] as const) {
+      events.on(`collision:${phase}`, ({ a, b }) => log.push(`${phase} ${a.id}-${b.id}`));
+    }
+  });
+
+  test('triggers report enter, stay and exit', () => {
+    const zone = box('zone', 0, true);
+    const walker = box('walker', 100, false);
+    const entered: string[] = [];
+    zone.getComponent('collider')!.onCollisionEnter = other => entered.push(other.id);
+
+    PhysicsSystem.checkCollisions(manager, events);
+    moveTo(walker, 10);
+    PhysicsSystem.checkCollisions(manager, events);
+    PhysicsSystem.checkCollisions(manager, events);
+    moveTo(walker, 100);
+    PhysicsSystem.checkCollisions(manager, events);
+    PhysicsSystem.checkCollisions(manager, events);
+
+    expect(log).toEqual(['enter zone-walker', 'stay zone-walker', 'exit zone-walker']);
+    expect(entered).toEqual(['walker']);
+  });
+
+  test('solid bodies pushed apart stay in contact while resting together', () => {
+    box('a', 0, false);
+    box('b', 10, false);
+
+    PhysicsSystem.checkCollisions(manager, events);
+    PhysicsSystem.checkCollisions(manager, events);
+
+    expect(log).toEqual(['enter a-b', 'stay a-b']);
+  });
+
+  test('entities leaving the world exit their contacts', () => {
+    const zone = box('zone', 0, true);
+    box('walker', 10, false);
+    PhysicsSystem.checkCollisions(manager, events);
+
+    manager.remove('walker');
+    PhysicsSystem.checkCollisions(manager, events);
+
+    expect(log).toEqual(['enter zone-walker', 'exit zone-walker']);
+    expect(PhysicsSystem.getContacts(manager).getContacts(zone)).toEqual([]);
+  });
+
+  test('entities that leave and come back between checks exit before entering again', () => {
+    box('zone', 0, true);
+    const walker = box('walker', 10, false);
+    PhysicsSystem.checkCollisions(manager, events);
+
+    // as when pooled: released, then acquired again in the same place
+    manager.detach(walker.id);
+    manager.add(walker);
+    PhysicsSystem.checkCollisions(manager, events);
+    PhysicsSystem.checkCollisions(manager, events);
+
+    expect(log).toEqual(['enter zone-walker', 'exit zone-walker', 'enter zone-walker', 'stay zone-walker']);
+  });
+});
@@ -1,4 +1,15 @@
-import { Entity, EntityFactory, EntityManager, TransformComponent, PhysicsComponent } from '../src/game/core/entity';
+import { Entity, EntityFactory, EntityManager, TransformComponent, PhysicsComponent, Component } from '../src/game/core/entity';
+
+interface LifetimeComponent extends Component {
+  type: 'lifetime';
+  remaining: number;
+}
+
+declare module '../src/game/core/entity' {
+  interface ComponentTypes {
+    lifetime: LifetimeComponent;
+  }
+}
 
 describe('Entity System', () => {
   describe('Entity', () => {
@@ -42,6 +53,17 @@ describe('Entity System', () => {
       expect(entity.hasComponent('transform')).toBe(false);
     });
 
+    it('should type components by their key', () => {
+      const player = EntityFactory.createPlayer(0, 0);
+      
+      // no generic needed: the registry knows 'physics' is a PhysicsComponent
+      const physics: PhysicsComponent | undefined = player.getComponent('physics');
+      expect(physics?.velocity).toEqual({ x: 0, y: 0 });
+      
+      player.addComponent({ type: 'lifetime', remaining: 3 } as LifetimeComponent);
+      expect(player.getComponent('lifetime')?.remaining).toBe(3);
+    });
+
     it('should be destroyed when destroy is called', () => {
       const entity = new Entity();
       
@@ -149,6 +171,53 @@ describe('Entity System', () => {
       expect(withTransform[0]).toBe(entity1);
     });
 
+    it('should query entities with typed component tuples', () => {
+      const player = EntityFactory.createPlayer(5, 6);
+      const pickup = EntityFactory.createPickup(0, 0);
+      const inactive = EntityFactory.createEnemy(0, 0);
+      inactive.active = false;
+      
+      manager.add(player);
+      manager.add(pickup);
+      manager.add(inactive);
+      
+      const results = manager.query('transform', 'physics');
+      expect(results).toHaveLength(1);
+      
+      const [entity, transform, physics] = results[0];
+      expect(entity).toBe(player);
+      expect(transform.position).toEqual({ x: 5, y: 6 });
+      expect(physics.mass).toBe(1);
+    });
+
+    it('should index entities by tag', () => {
+      const enemy = EntityFactory.createEnemy(0, 0);
+      const pickup = EntityFactory.createPickup(0, 0);
+      manager.add(enemy);
+      manager.add(pickup);
+      
+      expect(manager.getByTag('enemy')).toEqual([enemy]);
+      expect(manager.countByTag('pickup')).toBe(1);
+      
+      // tag changes after adding keep the index current
+      pickup.addTag('enemy');
+      enemy.removeTag('enemy');
+      expect(manager.getByTag('enemy')).toEqual([pickup]);
+      
+      manager.remove(pickup.id);
+      expect(manager.countByTag('enemy')).toBe(0);
+      expect(manager.countByTag('pickup')).toBe(0);
+    });
+
+    it('should identify entities by tag regardless of sprite color', () => {
+      const enemy = EntityFactory.createEnemy(0, 0);
+      enemy.getComponent('sprite')!.color = '#0000ff';
+      manager.add(enemy);
+      
+      expect(enemy.hasTag('enemy')).toBe(true);
+      expect(manager.getByTag('enemy')).toContain(enemy);
+    });
+
     it('should clear all entities', () => {
       const entity1 = new Entity('id1');
       const entity2 = new Entity('id2');
@@ -162,4 +231,68 @@ describe('Entity System', () => {
       expect(manager.getAll()).toHaveLength(0);
     });
   });
+
+  describe('Lifecycle', () => {
+    function tracked(type: string, log: string[]): Component {
+      return {
+        type,
+        onAdd: (entity) => log.push(`add ${type} to ${entity.id}`),
+        onRemove: (entity) => log.push(`remove ${type} from ${entity.id}`),
+      };
+    }
+
+    it('should call component hooks on add, replace, remove and destroy', () => {
+      const log: string[] = [];
+      const entity = new Entity('e');
+
+      const first = tracked('ai', log);
+      entity.addComponent(first);
+      entity.addComponent(first);
+      entity.addComponent(tracked('ai', log));
+      entity.removeComponent('ai');
+      entity.removeComponent('ai');
+      entity.addComponent(tracked('glow', log));
+      entity.destroy();
+
+      expect(log).toEqual([
+        'add ai to e',
+        'remove ai from e',
+        'add ai to e',
+        'remove ai from e',
+        'add glow to e',
+        'remove glow from e',
+      ]);
+    });
+
+    it('should notify when entities and components change', () => {
+      const manager = new EntityManager();
+      const log: string[] = [];
+      manager.events.on('entity:added', ({ entity }) => log.push(`added ${entity.id}`));
+      manager.events.on('entity:removed', ({ entity }) => log.push(`removed ${entity.id}`));
+      manager.events.on('component:added', ({ entity, component }) => log.push(`${entity.id} +${component.type}`));
+      manager.events.on('component:removed', ({ entity, component }) => log.push(`${entity.id} -${component.type}`));
+
+      const entity = new Entity('e');
+      entity.addComponent({ type: 'before' });
+      manager.add(entity);
+      entity.addComponent({ type: 'ai' });
+      entity.addTag('enemy');
+      entity.removeComponent('ai');
+      manager.remove('e');
+      // no longer managed, so no notifications
+      entity.addComponent({ type: 'after' });
+
+      expect(log).toEqual(['added e', 'e +ai', 'e +tags', 'e -ai', 'removed e']);
+    });
+
+    it('should keep the tag index current when the tags component is replaced', () => {
+      const manager = new EntityManager();
+      const entity = new Entity().addTag('old');
+      manager.add(entity);
+
+      entity.addComponent({ type: 'tags', tags: ['new'] } as Component);
+      expect(manager.countByTag('old')).toBe(0);
+      expect(manager.getByTag('new')).toEqual([entity]);
+    });
+  });
 });
@@ -0,0 +1,112 @@
+import { EventBus } from '../src/game/core/events';
+import { applyDamage, applyHealing } from '../src/game/core/health';
+import { EntityFactory, HealthComponent } from '../src/game/core/entity';
+
+interface TestEvents {
+  ping: { n: number };
+  pong: { n: number };
+}
+
+describe('EventBus', () => {
+  test('delivers payloads to subscribers and stops after unsubscribe', () => {
+    const bus = new EventBus<TestEvents>();
+    const seen: number[] = [];
+    const off = bus.on('ping', ({ n }) => seen.push(n));
+
+    bus.emit('ping', { n: 1 });
+    off();
+    bus.emit('ping', { n: 2 });
+
+    expect(seen).toEqual([1]);
+    expect(bus.listenerCount('ping')).toBe(0);
+  });
+
+  test('runs higher priority listeners first, ties in subscription order', () => {
+    const bus = new EventBus<TestEvents>();
+    const order: string[] = [];
+    bus.on('ping', () => order.push('a'));
+    bus.on('ping', () => order.push('high'), { priority: 10 });
+    bus.on('ping', () => order.push('b'));
+
+    bus.emit('ping', { n: 0 });
+
+    expect(order).toEqual(['high', 'a', 'b']);
+  });
+
+  test('once listeners fire a single time', () => {
+    const bus = new EventBus<TestEvents>();
+    const handler = jest.fn();
+    bus.once('ping', handler);
+
+    bus.emit('ping', { n: 1 });
+    bus.emit('ping', { n: 2 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('removes the right subscription when a handler is registered twice', () => {
+    const bus = new EventBus<TestEvents>();
+    const handler = jest.fn();
+    const unsubscribe = bus.on('ping', handler);
+    bus.once('ping', handler);
+
+    bus.emit('ping', { n: 1 });
+    expect(handler).toHaveBeenCalledTimes(2);
+    bus.emit('ping', { n: 2 });
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    bus.once('ping', handler);
+    unsubscribe();
+    bus.emit('ping', { n: 3 });
+    bus.emit('ping', { n: 4 });
+    expect(handler).toHaveBeenCalledTimes(4);
+    expect(bus.listenerCount('ping')).toBe(0);
+  });
+
+  test('queued events wait for flush and are delivered in order', () => {
+    const bus = new EventBus<TestEvents>();
+    const seen: string[] = [];
+    bus.on('ping', ({ n }) => {
+      seen.push(`ping${n}`);
+      bus.queue('pong', { n });
+    });
+    bus.on('pong', ({ n }) => seen.push(`pong${n}`));
+
+    bus.queue('ping', { n: 1 });
+    bus.queue('ping', { n: 2 });
+    expect(seen).toEqual([]);
+
+    bus.flush();
+    expect(seen).toEqual(['ping1', 'ping2']);
+
+    // events queued while flushing go out with the next flush
+    bus.flush();
+    expect(seen).toEqual(['ping1', 'ping2', 'pong1', 'pong2']);
+  });
+});
+
+describe('health helpers', () => {
+  test('damage announces the hit and the death', () => {
+    const bus = new EventBus();
+    const player = EntityFactory.createPlayer(0, 0);
+    const damaged = jest.fn();
+    const died = jest.fn();
+    bus.on('entity:damaged', damaged);
+    bus.on('entity:died', died);
+
+    const health = player.getComponent<HealthComponent>('health')!;
+    applyDamage(player, health.max - 1, bus);
+    expect(died).not.toHaveBeenCalled();
+
+    applyDamage(player, 10, bus);
+    expect(health.current).toBe(0);
+    expect(damaged).toHaveBeenCalledTimes(2);
+    expect(died).toHaveBeenCalledWith({ entity: player });
+
+    // the dead don't take further damage or heal
+    applyDamage(player, 10, bus);
+    applyHealing(player, 10, bus);
+    expect(damaged).toHaveBeenCalledTimes(2);
+    expect(health.current).toBe(0);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Focus Tests
+ * Engine suspend and input reset when the window loses focus
+ */
+
+import GameEngine from '../src/game/engine';
+import { MusicUploader } from '../src/game/ui/musicUploader';
+
+describe('Window focus', () => {
+  test('losing focus suspends the engine and releases held keys', () => {
+    const engine = new GameEngine();
+    engine.context.input.setKey('d', true);
+
+    window.dispatchEvent(new Event('blur'));
+
+    expect(engine.isSuspended()).toBe(true);
+    expect(engine.context.input.isKeyPressed('d')).toBe(false);
+  });
+
+  test('the music file picker taking focus only releases held keys', () => {
+    const engine = new GameEngine();
+    new MusicUploader(document.body);
+    engine.context.input.setKey('d', true);
+
+    document.querySelector('button')!.click();
+    window.dispatchEvent(new Event('blur'));
+
+    expect(engine.isSuspended()).toBe(false);
+    expect(engine.context.input.isKeyPressed('d')).toBe(false);
+
+    // once the dialog has closed, losing focus pauses again
+    window.dispatchEvent(new Event('focus'));
+    window.dispatchEvent(new Event('blur'));
+    expect(engine.isSuspended()).toBe(true);
+  });
+});
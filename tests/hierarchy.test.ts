@@ -0,0 +1,92 @@
+import { ColliderComponent, Entity, EntityManager, TransformComponent } from '../src/game/core/entity';
+import { getWorldTransform } from '../src/game/core/transform';
+import { PhysicsSystem } from '../src/game/core/physics';
+import { exportWorld, importWorld } from '../src/game/core/serialize';
+
+function createNode(id: string, x: number, y: number, rotation = 0): Entity {
+  const entity = new Entity(id);
+  entity.addComponent({
+    type: 'transform',
+    position: { x, y },
+    rotation,
+    scale: { x: 1, y: 1 },
+  } as TransformComponent);
+  return entity;
+}
+
+describe('Entity hierarchy', () => {
+  let manager: EntityManager;
+  let player: Entity;
+  let shield: Entity;
+
+  beforeEach(() => {
+    manager = new EntityManager();
+    player = createNode('player', 100, 100);
+    shield = createNode('shield', 20, 0);
+    manager.add(player);
+    manager.add(shield);
+    manager.setParent(shield, player);
+  });
+
+  test('children follow their parent in world space', () => {
+    expect(getWorldTransform(shield)!.position).toEqual({ x: 120, y: 100 });
+
+    // rotating the parent swings the child around it
+    player.getComponent('transform')!.rotation = Math.PI / 2;
+    const world = getWorldTransform(shield)!;
+    expect(world.position.x).toBeCloseTo(100);
+    expect(world.position.y).toBeCloseTo(120);
+    expect(world.rotation).toBeCloseTo(Math.PI / 2);
+  });
+
+  test('reparenting can keep the world position', () => {
+    const orbit = createNode('orbit', 50, 50);
+    manager.add(orbit);
+
+    manager.setParent(shield, orbit, true);
+
+    expect(manager.getParent(shield)).toBe(orbit);
+    expect(manager.getChildren(player)).toEqual([]);
+    expect(getWorldTransform(shield)!.position).toEqual({ x: 120, y: 100 });
+    expect(shield.getComponent('transform')!.position).toEqual({ x: 70, y: 50 });
+
+    // detaching without keeping treats the local position as world
+    manager.setParent(shield, null);
+    expect(getWorldTransform(shield)!.position).toEqual({ x: 70, y: 50 });
+  });
+
+  test('rejects cycles', () => {
+    expect(() => manager.setParent(player, shield)).toThrow(/descendant/);
+    expect(() => manager.setParent(player, player)).toThrow(/itself/);
+  });
+
+  test('destroy and active state cascade to descendants', () => {
+    const glow = createNode('glow', 0, 0);
+    manager.add(glow);
+    manager.setParent(glow, shield);
+
+    manager.setActive(player, false);
+    expect(shield.active).toBe(false);
+    expect(glow.active).toBe(false);
+
+    manager.remove('player');
+    expect(manager.getAll()).toEqual([]);
+  });
+
+  test('collisions use world positions', () => {
+    shield.addComponent({ type: 'collider', width: 10, height: 10, isTrigger: true } as ColliderComponent);
+    const flame = createNode('flame', 125, 102);
+    flame.addComponent({ type: 'collider', width: 10, height: 10, isTrigger: false } as ColliderComponent);
+    manager.add(flame);
+
+    expect(PhysicsSystem.isColliding(shield, flame)).toBe(true);
+  });
+
+  test('survives serialization', () => {
+    const restored = importWorld(exportWorld(manager));
+
+    const copy = restored.get('shield')!;
+    expect(restored.getParent(copy)).toBe(restored.get('player'));
+    expect(getWorldTransform(copy)!.position).toEqual({ x: 120, y: 100 });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Collision Layer Tests
+ * Tests for layer masks in the broadphase, narrowphase and tile collisions
+ */
+
+import {
+  layerBit,
+  maskBits,
+  getCollisionFilter,
+  filtersCollide,
+  getCollisionMatrix,
+} from '../src/game/core/layers';
+import { PhysicsSystem } from '../src/game/core/physics';
+import { Tilemap } from '../src/game/core/tilemap';
+import { EntityFactory, EntityManager, ColliderComponent } from '../src/game/core/entity';
+import { EventBus } from '../src/game/core/events';
+import { config } from '../src/game/config';
+
+describe('Collision layers', () => {
+  test('turns layer names into bits', () => {
+    expect(layerBit('default')).toBe(1);
+    expect(maskBits(['default', 'player'])).toBe(layerBit('default') | layerBit('player'));
+    expect(() => layerBit('ghost')).toThrow('Unknown collision layer: ghost');
+  });
+
+  test('colliders use their layer default mask unless they set one', () => {
+    const collider: ColliderComponent = { type: 'collider', width: 1, height: 1, isTrigger: false, layer: 'projectile' };
+    const enemy = getCollisionFilter({ ...collider, layer: 'enemy' });
+
+    expect(filtersCollide(getCollisionFilter(collider), enemy)).toBe(true);
+    expect(filtersCollide(getCollisionFilter({ ...collider, mask: ['wall'] }), enemy)).toBe(false);
+  });
+
+  test('builds a symmetric matrix from config', () => {
+    const { layers, collides } = getCollisionMatrix();
+
+    expect(layers).toEqual(config.collision.layers);
+    const enemy = layers.indexOf('enemy');
+    const pickup = layers.indexOf('pickup');
+    const player = layers.indexOf('player');
+    expect(collides[enemy][enemy]).toBe(false);
+    expect(collides[enemy][player]).toBe(true);
+    expect(collides[pickup][enemy]).toBe(false);
+    layers.forEach((_, a) => layers.forEach((__, b) => expect(collides[a][b]).toBe(collides[b][a])));
+  });
+});
+
+describe('PhysicsSystem with layers', () => {
+  test('overlapping flames do not collide with each other', () => {
+    const manager = new EntityManager();
+    const events = new EventBus();
+    const collisions: string[] = [];
+    events.on('collision', ({ a, b }) => collisions.push(`${a.getTags()[0]}-${b.getTags()[0]}`));
+
+    const first = EntityFactory.createEnemy(0, 0);
+    const second = EntityFactory.createEnemy(10, 0);
+    const player = EntityFactory.createPlayer(20, 0);
+    [first, second, player].forEach(entity => manager.add(entity));
+
+    expect(PhysicsSystem.isColliding(first, second)).toBe(false);
+    PhysicsSystem.checkCollisions(manager, events);
+    expect(collisions).toEqual(['enemy-player', 'enemy-player']);
+    expect(second.getComponent('transform')!.position.x).not.toBe(10);
+  });
+
+  test('queries can be limited to layers', () => {
+    const manager = new EntityManager();
+    const flame = EntityFactory.createEnemy(0, 0);
+    const pickup = EntityFactory.createPickup(0, 0);
+    manager.add(flame);
+    manager.add(pickup);
+
+    const region = { x: 0, y: 0, width: 10, height: 10 };
+    expect(PhysicsSystem.queryAABB(manager, region)).toEqual([flame, pickup]);
+    expect(PhysicsSystem.queryAABB(manager, region, ['pickup'])).toEqual([pickup]);
+  });
+
+  test('walls only block layers that collide with them', () => {
+    const map = Tilemap.fromJSON({ tileSize: 40, tiles: { '.': { solid: false }, '#': { solid: true } }, rows: ['.#'] });
+    const flame = EntityFactory.createEnemy(0, 0);
+    const ghost = EntityFactory.create('flame', 0, 0, { collider: { mask: ['player'] } });
+    for (const entity of [flame, ghost]) {
+      entity.getComponent('physics')!.velocity.x = 300;
+      entity.getComponent('physics')!.damping = 0;
+    }
+
+    PhysicsSystem.update([flame, ghost], 0.1, map);
+    expect(flame.getComponent('transform')!.position.x).toBe(40 - config.enemy.size);
+    expect(ghost.getComponent('transform')!.position.x).toBeCloseTo(30);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Fixed Timestep Tests
+ * Tests for accumulator-based simulation stepping
+ */
+
+import { FixedTimestep } from '../src/game/core/loop';
+
+describe('FixedTimestep', () => {
+  test('should run one tick per step of accumulated time', () => {
+    const loop = new FixedTimestep(60, 5);
+    
+    expect(loop.advance(1 / 60)).toBe(1);
+    expect(loop.advance(2 / 60)).toBe(2);
+  });
+
+  test('should carry leftover time into the next frame', () => {
+    const loop = new FixedTimestep(50, 5);
+    
+    expect(loop.advance(0.01)).toBe(0);
+    expect(loop.alpha).toBeCloseTo(0.5);
+    expect(loop.advance(0.01)).toBe(1);
+    expect(loop.alpha).toBeCloseTo(0);
+  });
+
+  test('should simulate the same ticks regardless of frame rate', () => {
+    const at30 = new FixedTimestep(60, 5);
+    const at144 = new FixedTimestep(60, 5);
+    let ticks30 = 0;
+    let ticks144 = 0;
+    
+    for (let i = 0; i < 30; i++) ticks30 += at30.advance(1 / 30);
+    for (let i = 0; i < 144; i++) ticks144 += at144.advance(1 / 144);
+    
+    expect(ticks30).toBe(60);
+    expect(Math.abs(ticks144 - 60)).toBeLessThanOrEqual(1);
+  });
+
+  test('should cap catch-up steps and drop the backlog', () => {
+    const loop = new FixedTimestep(60, 5);
+    
+    expect(loop.advance(1)).toBe(5);
+    expect(loop.alpha).toBe(0);
+    expect(loop.advance(1 / 60)).toBe(1);
+  });
+});
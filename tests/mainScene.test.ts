@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Main Scene Tests
+ * Gameplay tests driven through a headless engine
+ */
+
+import GameEngine from '../src/game/engine';
+import { MainScene } from '../src/game/scenes/mainScene';
+import { config } from '../src/game/config';
+import { Entity, ColliderComponent, PhysicsComponent, TransformComponent } from '../src/game/core/entity';
+import { World } from '../src/game/core/systems';
+import { Tilemap } from '../src/game/core/tilemap';
+import roomData from '../src/game/data/rooms.json';
+
+// runs use a fixed seed so spawn layouts, and any failure, repeat exactly
+function startRun(musicDuration: number) {
+  const engine = new GameEngine({ headless: true });
+  const scene = new MainScene(engine.context, { musicDuration, musicFileName: 'test.mp3', seed: 1 });
+  engine.context.scenes.reset(scene);
+  return { engine, scene };
+}
+
+function stepUntil(engine: GameEngine, done: () => boolean, maxTicks = 3600): void {
+  for (let i = 0; i < maxTicks && !done(); i++) {
+    engine.step();
+  }
+}
+
+describe('MainScene (headless)', () => {
+  const enemyDamage = config.enemy.damage;
+
+  afterEach(() => {
+    config.enemy.damage = enemyDamage;
+  });
+
+  test('should run without a canvas', () => {
+    const { engine } = startRun(60);
+    engine.step(10);
+
+    expect(engine.getState().tick).toBe(10);
+    expect(engine.getState().scenes).toEqual(['main']);
+  });
+
+  test('should separate overlapping bodies and report contact enter and exit', () => {
+    const engine = new GameEngine({ headless: true });
+    let world: World | undefined;
+    engine.use({ name: 'capture', install: (_, installed) => { world = installed; } });
+    const scene = new MainScene(engine.context, { musicDuration: 60, musicFileName: 'test.mp3', seed: 1 });
+    engine.context.scenes.reset(scene);
+
+    const contacts: string[] = [];
+    for (const phase of ['enter', 'exit'] as const) {
+      engine.context.events.on(`collision:${phase}`, ({ a, b }) => {
+        if (a.hasTag('crate') && b.hasTag('crate')) contacts.push(phase);
+      });
+    }
+    const crates = [0, 10].map(x => {
+      const crate = new Entity();
+      crate.addComponent({ type: 'transform', position: { x, y: 0 }, rotation: 0, scale: { x: 1, y: 1 } } as TransformComponent);
+      crate.addComponent({ type: 'collider', width: 20, height: 20, isTrigger: false } as ColliderComponent);
+      crate.addComponent({
+        type: 'physics', velocity: { x: 0, y: 0 }, acceleration: { x: 0, y: 0 }, mass: 1, friction: 0, damping: 0,
+      } as PhysicsComponent);
+      crate.addTag('crate');
+      world!.entities.add(crate);
+      return crate;
+    });
+
+    engine.step();
+    const [left, right] = crates.map(crate => crate.getComponent('transform')!.position.x);
+    expect(right - left).toBeCloseTo(20);
+    expect(contacts).toEqual(['enter']);
+
+    crates[1].getComponent('transform')!.position.x = 200;
+    engine.step();
+    expect(contacts).toEqual(['enter', 'exit']);
+  });
+
+  test('should clear the room once every flame reaches the player', () => {
+    const { engine, scene } = startRun(60);
+
+    stepUntil(engine, () => scene.getState().roomsCleared.includes(0));
+
+    const state = scene.getState();
+    expect(state.roomsCleared).toContain(0);
+    expect(state.flamesExtinguished).toBe(config.room.enemiesPerRoom);
+    expect(state.playerHealth).toBe(config.player.maxHealth - config.room.enemiesPerRoom * config.enemy.damage);
+  });
+
+  test('should move the player out of the walls of a new room', () => {
+    config.enemy.damage = 0;
+    const engine = new GameEngine({ headless: true });
+    let world: World | undefined;
+    engine.use({ name: 'capture', install: (_, installed) => { world = installed; } });
+    const scene = new MainScene(engine.context, { musicDuration: 60, musicFileName: 'test.mp3', seed: 1 });
+    engine.context.scenes.reset(scene);
+    stepUntil(engine, () => scene.getState().roomsCleared.includes(0));
+
+    // open floor in the first room, a wall in the second
+    const player = world!.entities.get('player')!;
+    player.getComponent('transform')!.position = { x: 44, y: 44 };
+    engine.context.input.setKey('e', true);
+    engine.step();
+    engine.context.input.setKey('e', false);
+
+    expect(scene.getState().currentRoom).toBe(1);
+    const position = player.getComponent('transform')!.position;
+    const size = config.player.size;
+    expect(position).not.toEqual({ x: 44, y: 44 });
+    expect(Math.hypot(position.x - 44, position.y - 44)).toBeLessThan(roomData.tileSize * 2);
+    const room = Tilemap.fromJSON({ tileSize: roomData.tileSize, tiles: roomData.tiles, rows: roomData.rooms[1] });
+    expect(room.overlapsSolid({ ...position, width: size, height: size })).toBe(false);
+  });
+
+  test('should end in game over when time runs out with flames left', () => {
+    const { engine, scene } = startRun(1);
+
+    engine.step(61);
+
+    expect(scene.getState().finished).toBe(true);
+    expect(engine.getState().scenes).toEqual(['main', 'gameOver']);
+  });
+
+  test('should end in victory after clearing every realm', () => {
+    config.enemy.damage = 0;
+    const { engine, scene } = startRun(120);
+
+    for (let room = 0; room < config.room.totalRooms; room++) {
+      stepUntil(engine, () => scene.getState().roomsCleared.includes(room));
+      if (room + 1 < config.room.totalRooms) {
+        engine.context.input.setKey('e', true);
+        engine.step();
+        engine.context.input.setKey('e', false);
+      }
+    }
+    expect(scene.getState().flamesExtinguished).toBe(scene.getState().totalFlames);
+
+    stepUntil(engine, () => scene.getState().finished, 120 * config.loop.tickRate);
+    expect(engine.getState().scenes).toEqual(['main', 'victory']);
+  });
+});
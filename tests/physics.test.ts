@@ -0,0 +1,114 @@
+/**
+ * Collision Response Tests
+ * Tests for mass-weighted impulses, restitution, friction and damping
+ */
+
+import { PhysicsSystem } from '../src/game/core/physics';
+import { Tilemap } from '../src/game/core/tilemap';
+import { Entity, ColliderComponent, PhysicsComponent, TransformComponent } from '../src/game/core/entity';
+
+function body(x: number, y: number, physics: Partial<PhysicsComponent> = {}): Entity {
+  const entity = new Entity();
+  entity.addComponent({ type: 'transform', position: { x, y }, rotation: 0, scale: { x: 1, y: 1 } } as TransformComponent);
+  entity.addComponent({ type: 'collider', width: 10, height: 10, isTrigger: false } as ColliderComponent);
+  entity.addComponent({
+    type: 'physics',
+    velocity: { x: 0, y: 0 },
+    acceleration: { x: 0, y: 0 },
+    mass: 1,
+    friction: 0,
+    damping: 0,
+    ...physics,
+  } as PhysicsComponent);
+  return entity;
+}
+
+function velocity(entity: Entity): { x: number; y: number } {
+  return entity.getComponent('physics')!.velocity;
+}
+
+function position(entity: Entity): { x: number; y: number } {
+  return entity.getComponent('transform')!.position;
+}
+
+describe('Collision response', () => {
+  test('heavier bodies give way less and momentum is kept', () => {
+    const light = body(0, 0, { velocity: { x: 30, y: 0 } });
+    const heavy = body(6, 0, { mass: 3, velocity: { x: -10, y: 0 } });
+
+    PhysicsSystem.resolveCollision(light, heavy);
+
+    // 4 units of overlap, shared 3:1
+    expect(position(light).x).toBeCloseTo(-3);
+    expect(position(heavy).x).toBeCloseTo(7);
+    // without restitution both end at the common velocity
+    expect(velocity(light).x).toBeCloseTo(0);
+    expect(velocity(heavy).x).toBeCloseTo(0);
+  });
+
+  test('static bodies and colliders without physics are never pushed', () => {
+    const wall = body(6, 0, { isStatic: true });
+    const ball = body(0, 0, { velocity: { x: 50, y: 0 }, restitution: 1 });
+
+    PhysicsSystem.resolveCollision(ball, wall);
+
+    expect(position(wall).x).toBe(6);
+    expect(position(ball).x).toBeCloseTo(-4);
+    expect(velocity(ball).x).toBeCloseTo(-50);
+    expect(velocity(wall).x).toBe(0);
+
+    const post = new Entity();
+    post.addComponent({ type: 'transform', position: { x: -10, y: 0 }, rotation: 0, scale: { x: 1, y: 1 } } as TransformComponent);
+    post.addComponent({ type: 'collider', width: 10, height: 10, isTrigger: false } as ColliderComponent);
+    PhysicsSystem.resolveCollision(post, ball);
+    expect(position(post).x).toBe(-10);
+    expect(position(ball).x).toBeCloseTo(0);
+  });
+
+  test('restitution bounces bodies apart by the bouncier one', () => {
+    const a = body(0, 0, { velocity: { x: 20, y: 0 }, restitution: 0.5 });
+    const b = body(9, 0, { velocity: { x: -20, y: 0 } });
+
+    PhysicsSystem.resolveCollision(a, b);
+
+    expect(velocity(a).x).toBeCloseTo(-10);
+    expect(velocity(b).x).toBeCloseTo(10);
+  });
+
+  test('friction slows sliding along the contact', () => {
+    const slide = (friction: number): number => {
+      const floor = body(0, 9, { isStatic: true, friction: 1 });
+      const block = body(0, 0, { velocity: { x: 40, y: 10 }, friction });
+      PhysicsSystem.resolveCollision(block, floor);
+      return velocity(block).x;
+    };
+
+    expect(slide(0)).toBeCloseTo(40);
+    // stopping 10 into the floor allows up to 0.25 * 10 of sliding impulse
+    expect(slide(0.25 ** 2)).toBeCloseTo(40 - 2.5);
+    expect(slide(100)).toBeCloseTo(0);
+  });
+});
+
+describe('Damping', () => {
+  test('does not depend on the tick rate', () => {
+    const coarse = body(0, 0, { velocity: { x: 100, y: 0 }, damping: 3 });
+    const fine = body(0, 0, { velocity: { x: 100, y: 0 }, damping: 3 });
+
+    PhysicsSystem.update([coarse], 0.2);
+    for (let i = 0; i < 4; i++) PhysicsSystem.update([fine], 0.05);
+
+    expect(velocity(coarse).x).toBeCloseTo(100 * Math.exp(-0.6));
+    expect(velocity(fine).x).toBeCloseTo(velocity(coarse).x);
+  });
+
+  test('walls bounce bodies back by their restitution', () => {
+    const map = Tilemap.fromJSON({ tileSize: 20, tiles: { '.': { solid: false }, '#': { solid: true } }, rows: ['..#'] });
+    const ball = body(25, 5, { velocity: { x: 100, y: 0 }, restitution: 0.5 });
+
+    PhysicsSystem.update([ball], 0.1, map);
+
+    expect(position(ball).x).toBe(30);
+    expect(velocity(ball).x).toBeCloseTo(-50);
+  });
+});
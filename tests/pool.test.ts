@@ -0,0 +1,69 @@
+import { EntityManager, HealthComponent } from '../src/game/core/entity';
+import { EntityPool } from '../src/game/core/pool';
+import { config } from '../src/game/config';
+
+describe('EntityPool', () => {
+  let manager: EntityManager;
+  let pool: EntityPool;
+
+  beforeEach(() => {
+    manager = new EntityManager();
+    pool = new EntityPool(manager);
+  });
+
+  test('reuses released entities and their component objects', () => {
+    const first = pool.acquire('flame', 10, 20);
+    const physics = first.getComponent('physics')!;
+    pool.release(first);
+
+    expect(manager.getAll()).toHaveLength(0);
+    expect(first.active).toBe(false);
+
+    const second = pool.acquire('flame', 30, 40);
+    expect(second).toBe(first);
+    expect(second.getComponent('physics')).toBe(physics);
+    expect(second.getComponent('transform')!.position).toEqual({ x: 30, y: 40 });
+    expect(manager.getByTag('enemy')).toEqual([second]);
+    expect(pool.getStats('flame')).toEqual({ created: 1, reused: 1, released: 1, available: 0 });
+  });
+
+  test('resets component state changed while in use', () => {
+    const flame = pool.acquire('flame', 0, 0);
+    flame.getComponent('physics')!.velocity.x = 99;
+    flame.getComponent('sprite')!.color = '#000000';
+    flame.getComponent('collider')!.onCollision = () => {};
+    flame.addComponent({ type: 'health', current: 1, max: 1 } as HealthComponent);
+    flame.addTag('burning');
+    pool.release(flame);
+
+    const reused = pool.acquire('flame', 0, 0);
+    expect(reused.getComponent('physics')!.velocity).toEqual({ x: 0, y: 0 });
+    expect(reused.getComponent('sprite')!.color).toBe(config.enemy.color);
+    expect(reused.getComponent('collider')!.onCollision).toBeUndefined();
+    expect(reused.hasComponent('health')).toBe(false);
+    expect(reused.getTags()).toEqual(['enemy', 'flame']);
+    expect(manager.countByTag('burning')).toBe(0);
+  });
+
+  test('warms up idle entities ahead of time', () => {
+    pool.warm('pickup', 3);
+    expect(pool.getStats('pickup')).toMatchObject({ created: 3, available: 3 });
+    expect(manager.getAll()).toHaveLength(0);
+
+    pool.acquire('pickup', 0, 0);
+    expect(pool.getStats('pickup')).toMatchObject({ created: 3, reused: 1, available: 2 });
+  });
+
+  test('removes entities it did not create', () => {
+    pool.warm('flame', 1);
+    const other = new EntityManager();
+    const stranger = new EntityPool(other).acquire('flame', 0, 0);
+    manager.add(stranger);
+
+    pool.release(stranger);
+
+    expect(manager.getAll()).toHaveLength(0);
+    expect(stranger.components.size).toBe(0);
+    expect(pool.getStats('flame').available).toBe(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { EntityFactory } from '../src/game/core/entity';
+import { PrefabRegistry } from '../src/game/core/prefabs';
+import { config } from '../src/game/config';
+import * as assets from '../src/game/core/assets';
+
+describe('Prefabs', () => {
+  test('creates entities by name with inherited components and tags', () => {
+    const flame = EntityFactory.create('flame', 1, 2);
+    const big = EntityFactory.create('bigFlame', 3, 4);
+
+    expect(big.getTags()).toEqual(['enemy', 'flame']);
+    expect(big.getComponent('transform')?.position).toEqual({ x: 3, y: 4 });
+    expect(big.getComponent('sprite')?.width).toBe(48);
+    expect(big.getComponent('physics')?.mass).toBe(3);
+    // untouched fields come from the parent
+    expect(big.getComponent('physics')?.friction).toBe(flame.getComponent('physics')?.friction);
+  });
+
+  test('applies per-instance overrides without touching the prefab', () => {
+    const blue = EntityFactory.create('flame', 0, 0, { sprite: { color: '#0000ff' }, physics: { velocity: { x: 5, y: 0 } } });
+    const plain = EntityFactory.create('flame', 0, 0);
+
+    expect(blue.getComponent('sprite')?.color).toBe('#0000ff');
+    expect(blue.getComponent('physics')?.velocity).toEqual({ x: 5, y: 0 });
+    expect(plain.getComponent('sprite')?.color).toBe(config.enemy.color);
+    // instances never share nested objects
+    expect(plain.getComponent('physics')?.velocity).not.toBe(EntityFactory.create('flame', 0, 0).getComponent('physics')?.velocity);
+  });
+
+  test('reads $config references when instantiating', () => {
+    const size = config.pickup.size;
+    config.pickup.size = 50;
+    try {
+      expect(EntityFactory.create('pickup', 0, 0).getComponent('collider')?.width).toBe(50);
+    } finally {
+      config.pickup.size = size;
+    }
+  });
+
+  test('rejects invalid definitions and reports every problem', () => {
+    const registry = new PrefabRegistry();
+    const load = () => registry.load({
+      orphan: { extends: 'missing' },
+      partial: { components: { sprite: { width: 10 } } },
+      badRef: { components: { health: { current: '$config:nope.value', max: 1 } } },
+      loopA: { extends: 'loopB' },
+      loopB: { extends: 'loopA' },
+      ok: { tags: ['fine'] },
+    });
+
+    expect(load).toThrow(/extends unknown prefab "missing"/);
+    expect(load).toThrow(/sprite is missing height, color/);
+    expect(load).toThrow(/unknown config value "\$config:nope.value"/);
+    expect(load).toThrow(/circular extends/);
+    // nothing is registered when loading fails
+    expect(registry.has('ok')).toBe(false);
+  });
+
+  test('checks field types, including values read from config', () => {
+    const registry = new PrefabRegistry();
+    const load = () => registry.load({
+      words: { components: { sprite: { width: 'wide', height: 10, color: 5, spriteName: ['x'] } } },
+      nested: { components: { physics: { velocity: 0, acceleration: { x: 0, y: 0 }, mass: 1, friction: 0, damping: NaN } } },
+      fromConfig: { components: { collider: { width: '$config:player.color', height: 1, isTrigger: 'yes' } } },
+    });
+
+    expect(load).toThrow(/sprite\.width must be a number/);
+    expect(load).toThrow(/sprite\.color must be a string/);
+    expect(load).toThrow(/sprite\.spriteName must be a string/);
+    expect(load).toThrow(/physics\.velocity must be an object/);
+    expect(load).toThrow(/physics\.damping must be a number/);
+    expect(load).toThrow(/collider\.width must be a number/);
+    expect(load).toThrow(/collider\.isTrigger must be a boolean/);
+  });
+
+  test('checks collider layers and shapes', () => {
+    const registry = new PrefabRegistry();
+    const collider = { width: 10, height: 10, isTrigger: false };
+    const load = () => registry.load({
+      typo: { components: { collider: { ...collider, layer: 'enemey', mask: ['player', 'wal'] } } },
+      badMask: { components: { collider: { ...collider, mask: 'player' } } },
+      oddShape: { components: { collider: { ...collider, shape: { kind: 'triangle' } } } },
+      flatCircle: { components: { collider: { ...collider, shape: { kind: 'circle', radius: 0, center: [1, 2] } } } },
+      arrow: {
+        components: {
+          collider: { ...collider, shape: { kind: 'polygon', points: [{ x: 0, y: 0 }, { x: 10, y: 5 }, { x: 0, y: 10 }, { x: 4, y: 5 }] } },
+        },
+      },
+      loose: { components: { collider: { ...collider, shape: { kind: 'polygon', points: [{ x: 0 }] } } } },
+    });
+
+    expect(load).toThrow(/"typo" collider\.layer: unknown collision layer "enemey"/);
+    expect(load).toThrow(/"typo" collider\.mask: unknown collision layer "wal"/);
+    expect(load).toThrow(/"badMask" collider\.mask must be an array of layer names/);
+    expect(load).toThrow(/"oddShape" collider\.shape\.kind must be one of box, circle, polygon, capsule/);
+    expect(load).toThrow(/"flatCircle" collider\.shape\.radius must be a positive number/);
+    expect(load).toThrow(/"flatCircle" collider\.shape\.center must be a point/);
+    expect(load).toThrow(/"arrow" collider\.shape: polygon must be convex/);
+    expect(load).toThrow(/"loose" collider\.shape\.points must be an array of points/);
+  });
+
+  test('binds sprite images by name', () => {
+    const image = { src: 'enemy.svg' } as HTMLImageElement;
+    const getSprite = jest.spyOn(assets, 'getSprite').mockImplementation(name => (name === 'enemy' ? image : undefined));
+    try {
+      expect(EntityFactory.create('bigFlame', 0, 0).getComponent('sprite')?.image).toBe(image);
+      expect(EntityFactory.createPlayer(0, 0).getComponent('sprite')?.spriteName).toBe('player');
+      expect(getSprite).toHaveBeenCalledWith('player');
+    } finally {
+      getSprite.mockRestore();
+    }
+  });
+
+  test('can extend prefabs loaded earlier', () => {
+    const registry = new PrefabRegistry();
+    registry.load({ base: { tags: ['a'], components: { collider: { width: 1, height: 1, isTrigger: true } } } });
+    registry.load({ child: { extends: 'base', tags: ['b'] } });
+
+    const instance = registry.instantiate('child');
+    expect(instance.tags).toEqual(['a', 'b']);
+    expect(instance.components).toEqual([{ type: 'collider', width: 1, height: 1, isTrigger: true }]);
+    expect(() => registry.instantiate('nothing')).toThrow('Unknown prefab: nothing');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+
+import GameEngine from '../src/game/engine';
+import { MainScene } from '../src/game/scenes/mainScene';
+import profiler, { Profiler, ProfilerTrace } from '../src/game/core/profiler';
+import { config } from '../src/game/config';
+
+describe('Profiler', () => {
+  test('accumulates phase time within a frame', () => {
+    const p = new Profiler(10);
+    let clock = 0;
+    p.now = () => clock;
+    p.setEnabled(true);
+
+    p.beginFrame();
+    p.record('physics', 2);
+    p.record('physics', 3);
+    p.record('render', 1);
+    p.allocate('vectors', 4);
+    clock = 8;
+    p.endFrame();
+
+    const [sample] = p.getSamples();
+    expect(sample.total).toBe(8);
+    expect(sample.phases).toEqual({ physics: 5, render: 1 });
+    expect(sample.allocations).toEqual({ vectors: 4 });
+  });
+
+  test('records nothing while disabled and keeps a bounded history', () => {
+    const p = new Profiler(3);
+    p.beginFrame();
+    p.record('physics', 1);
+    p.endFrame();
+    expect(p.getSamples()).toHaveLength(0);
+
+    p.setEnabled(true);
+    for (let i = 0; i < 5; i++) {
+      p.beginFrame();
+      p.endFrame();
+    }
+    expect(p.getSamples().map(s => s.frame)).toEqual([2, 3, 4]);
+  });
+
+  test('overlay can only be shown while profiling', () => {
+    const p = new Profiler(3);
+    p.toggleOverlay();
+    expect(p.overlayVisible).toBe(false);
+
+    p.setEnabled(true);
+    p.toggleOverlay();
+    expect(p.overlayVisible).toBe(true);
+  });
+});
+
+describe('Profiler (headless engine)', () => {
+  afterEach(() => {
+    config.debug.profiler = false;
+    profiler.setEnabled(false);
+    profiler.reset();
+  });
+
+  test('traces per-phase timings and entity counts', () => {
+    config.debug.profiler = true;
+    const engine = new GameEngine({ headless: true });
+    engine.context.scenes.reset(new MainScene(engine.context, { musicDuration: 60, musicFileName: 'bench.mp3', seed: 1 }));
+    engine.step(5);
+    engine.step(5);
+
+    const trace = JSON.parse(profiler.exportTrace()) as ProfilerTrace;
+    expect(trace.frames).toHaveLength(2);
+    expect(trace.frames[0].ticks).toBe(5);
+    expect(Object.keys(trace.frames[0].phases)).toEqual(
+      expect.arrayContaining(['input', 'physics', 'collision', 'ai'])
+    );
+    expect(trace.frames[0].counts.entities).toBeGreaterThan(1);
+    expect(trace.frames[0].allocations.entityArrays).toBeGreaterThan(0);
+    expect(trace.averages.total).toBeGreaterThanOrEqual(0);
+  });
+});
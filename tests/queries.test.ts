@@ -0,0 +1,157 @@
+/**
+ * World Query Tests
+ * Tests for raycasts, line of sight, shape casts and exact overlaps
+ */
+
+import { PhysicsSystem } from '../src/game/core/physics';
+import { rayShape } from '../src/game/core/shapes';
+import { Tilemap } from '../src/game/core/tilemap';
+import { Entity, EntityFactory, EntityManager } from '../src/game/core/entity';
+
+const map = Tilemap.fromJSON({
+  tileSize: 10,
+  tiles: { '.': { solid: false }, '#': { solid: true } },
+  rows: ['.....#..........'],
+});
+
+function box(manager: EntityManager, x: number, y: number, size: number = 20): Entity {
+  const entity = EntityFactory.create('flame', x, y, { collider: { width: size, height: size, shape: { kind: 'box' } } });
+  manager.add(entity);
+  return entity;
+}
+
+function circle(manager: EntityManager, x: number, y: number): Entity {
+  const entity = EntityFactory.create('flame', x, y, { collider: { width: 20, height: 20, shape: { kind: 'circle' } } });
+  manager.add(entity);
+  return entity;
+}
+
+describe('Raycast', () => {
+  test('hits the nearest collider with point, normal and distance', () => {
+    const manager = new EntityManager();
+    const far = box(manager, 200, 0);
+    const near = box(manager, 100, 0);
+
+    const hit = PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: 2, y: 0 }, 500);
+
+    expect(hit?.entity).toBe(near);
+    expect(hit?.point).toEqual({ x: 100, y: 5 });
+    expect(hit?.normal.x).toBeCloseTo(-1);
+    expect(hit?.normal.y).toBeCloseTo(0);
+    expect(hit?.distance).toBeCloseTo(100);
+    expect(PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: 1, y: 0 }, 500, { ignore: [near] })?.entity).toBe(far);
+    expect(PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: 1, y: 0 }, 50)).toBeNull();
+  });
+
+  test('follows collider shapes, not their bounds', () => {
+    const manager = new EntityManager();
+    const target = circle(manager, 100, 0);
+
+    const hit = PhysicsSystem.raycast(manager, { x: 0, y: 1 }, { x: 1, y: 0 }, 500);
+    expect(hit?.entity).toBe(target);
+    expect(hit?.distance).toBeCloseTo(110 - Math.sqrt(19));
+
+    // clips the bounds' corner but misses the circle
+    expect(PhysicsSystem.raycast(manager, { x: 95, y: 10 }, { x: 1, y: -1 }, 500)).toBeNull();
+  });
+
+  test('stops at solid tiles', () => {
+    const manager = new EntityManager();
+    box(manager, 100, 0);
+
+    const hit = PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: 1, y: 0 }, 500, { tilemap: map });
+
+    expect(hit?.entity).toBeUndefined();
+    expect(hit?.distance).toBeCloseTo(50);
+    expect(hit?.normal).toEqual({ x: -1, y: 0 });
+  });
+
+  test('accepts an infinite distance and stops once past everything', () => {
+    const manager = new EntityManager();
+    const target = box(manager, 1000, 0);
+
+    const hit = PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: 1, y: 0 }, Infinity);
+    expect(hit?.entity).toBe(target);
+    expect(hit?.distance).toBeCloseTo(1000);
+    expect(PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: 1, y: 0 }, Infinity, { tilemap: map })?.distance).toBeCloseTo(50);
+    expect(PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: -1, y: -1 }, Infinity, { tilemap: map })).toBeNull();
+    expect(PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: 1, y: 0 }, NaN)).toBeNull();
+    expect(PhysicsSystem.raycast(new EntityManager(), { x: 0, y: 5 }, { x: 1, y: 0 }, Infinity)).toBeNull();
+  });
+
+  test('long diagonal rays only look at the cells they cross', () => {
+    const manager = new EntityManager();
+    // a row of boxes under the diagonal that its bounding box would include
+    for (let x = 100; x <= 2900; x += 100) box(manager, x, 2950, 20);
+    const target = box(manager, 2990, 2990, 20);
+    const broadphase = PhysicsSystem.getBroadphase(manager);
+    const queryRay = jest.spyOn(broadphase, 'queryRay');
+
+    const hit = PhysicsSystem.raycast(manager, { x: 0, y: 0 }, { x: 1, y: 1 }, 5000);
+
+    expect(hit?.entity).toBe(target);
+    expect(queryRay.mock.results[0].value).toEqual([target]);
+  });
+
+  test('filters by layer and skips triggers unless asked', () => {
+    const manager = new EntityManager();
+    const enemy = box(manager, 100, 0);
+    const pickup = EntityFactory.create('pickup', 50, 0);
+    manager.add(pickup);
+
+    const along = (options = {}) => PhysicsSystem.raycast(manager, { x: 0, y: 5 }, { x: 1, y: 0 }, 500, options)?.entity;
+    expect(along()).toBe(enemy);
+    expect(along({ includeTriggers: true })).toBe(pickup);
+    expect(along({ layers: ['player'] })).toBeUndefined();
+  });
+});
+
+describe('Line of sight', () => {
+  test('is blocked by walls but not by other colliders', () => {
+    const manager = new EntityManager();
+    const looker = box(manager, 0, 0, 10);
+    const target = box(manager, 100, 0, 10);
+    const between = box(manager, 70, 0, 10);
+
+    expect(PhysicsSystem.lineOfSight(manager, looker, target)).toBe(true);
+    expect(PhysicsSystem.lineOfSight(manager, looker, target, { tilemap: map })).toBe(false);
+    expect(PhysicsSystem.lineOfSight(manager, looker, target, { layers: ['enemy'] })).toBe(false);
+    expect(PhysicsSystem.lineOfSight(manager, looker, target, { layers: ['enemy'], ignore: [between] })).toBe(true);
+    expect(PhysicsSystem.lineOfSight(manager, { x: 70, y: 20 }, { x: 150, y: 20 }, { tilemap: map })).toBe(true);
+  });
+});
+
+describe('Shape queries', () => {
+  test('overlapCircle tests exact shapes', () => {
+    const manager = new EntityManager();
+    const target = circle(manager, 100, 0);
+
+    // inside the circle's bounds but outside the circle
+    expect(PhysicsSystem.queryCircle(manager, { x: 98, y: -2 }, 3)).toEqual([target]);
+    expect(PhysicsSystem.overlapCircle(manager, { x: 98, y: -2 }, 3)).toEqual([]);
+    expect(PhysicsSystem.overlapCircle(manager, { x: 95, y: 10 }, 6)).toEqual([target]);
+    expect(PhysicsSystem.overlapCircle(manager, { x: -5000, y: 0 }, Infinity)).toEqual([target]);
+  });
+
+  test('shapeCast reports where a moving shape first touches', () => {
+    const manager = new EntityManager();
+    const target = box(manager, 100, 0);
+    const shape = { points: [{ x: 0, y: 10 }], radius: 5 };
+
+    const hit = PhysicsSystem.shapeCast(manager, shape, { x: 200, y: 0 });
+    expect(hit?.entity).toBe(target);
+    expect(hit?.distance).toBeCloseTo(95);
+    expect(hit?.point.x).toBeCloseTo(100);
+    expect(hit?.point.y).toBeCloseTo(10);
+
+    expect(PhysicsSystem.shapeCast(manager, shape, { x: 200, y: 0 }, { tilemap: map })?.distance).toBeCloseTo(45);
+  });
+
+  test('rays enter capsules through their sides and rounded ends', () => {
+    const capsule = { points: [{ x: 0, y: 0 }, { x: 0, y: 20 }], radius: 5 };
+
+    expect(rayShape({ x: -20, y: 10 }, { x: 40, y: 0 }, capsule)?.time).toBeCloseTo(15 / 40);
+    expect(rayShape({ x: 0, y: -20 }, { x: 0, y: 40 }, capsule)?.time).toBeCloseTo(15 / 40);
+    expect(rayShape({ x: -20, y: -5.5 }, { x: 40, y: 0 }, capsule)).toBeNull();
+  });
+});
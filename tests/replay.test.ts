@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Replay Tests
+ * Tests for input recording and deterministic playback
+ */
+
+import GameEngine from '../src/game/engine';
+import { MainScene } from '../src/game/scenes/mainScene';
+import { exportReplay, importReplay, REPLAY_VERSION } from '../src/game/core/replay';
+import { config } from '../src/game/config';
+
+function recordRun(ticks: number) {
+  const engine = new GameEngine({ headless: true });
+  const scene = new MainScene(engine.context, { musicDuration: 60, musicFileName: 'song.mp3', seed: 77 });
+  engine.context.scenes.reset(scene);
+  const input = engine.context.input;
+
+  for (let i = 0; i < ticks; i++) {
+    // weave around the arena so collisions depend on input
+    input.setKey('d', i % 90 < 45);
+    input.setKey('w', i % 60 < 20);
+    engine.step();
+  }
+
+  return { state: scene.getState(), replay: engine.context.replays.stop() };
+}
+
+describe('Replays', () => {
+  test('should record only ticks where input changed', () => {
+    const { replay } = recordRun(120);
+
+    expect(replay).not.toBeNull();
+    expect(replay!.ticks).toBe(120);
+    expect(replay!.seed).toBe(77);
+    expect(replay!.frames.length).toBeLessThan(120);
+    expect(replay!.frames[0][0]).toBe(0);
+  });
+
+  test('should reproduce the recorded run exactly', () => {
+    const { state, replay } = recordRun(300);
+    const json = exportReplay(replay!);
+
+    const engine = new GameEngine({ headless: true });
+    engine.playReplay(importReplay(json));
+    engine.step(300);
+
+    const scene = engine.context.scenes.current as MainScene;
+    expect(scene.getState()).toEqual(state);
+  });
+
+  test('should return input control after playback ends', () => {
+    const { replay } = recordRun(30);
+    const engine = new GameEngine({ headless: true });
+
+    engine.playReplay(replay!);
+    expect(engine.context.replays.isPlaying()).toBe(true);
+    expect(engine.context.input.isLive()).toBe(false);
+
+    engine.step(31);
+    expect(engine.context.replays.isPlaying()).toBe(false);
+    expect(engine.context.input.isLive()).toBe(true);
+  });
+
+  test('should reject files from other replay versions', () => {
+    expect(() => importReplay(JSON.stringify({ version: REPLAY_VERSION + 1 }))).toThrow('Unsupported replay version');
+    expect(() => importReplay(JSON.stringify({ version: REPLAY_VERSION }))).toThrow('Invalid replay file');
+  });
+
+  test('should reject replays recorded at another tick rate', () => {
+    const replay = { version: REPLAY_VERSION, seed: 1, ticks: 10, frames: [] };
+    expect(() => importReplay(JSON.stringify({ ...replay, tickRate: config.loop.tickRate * 2 }))).toThrow('ticks per second');
+    expect(importReplay(JSON.stringify({ ...replay, tickRate: config.loop.tickRate })).tickRate).toBe(config.loop.tickRate);
+  });
+});
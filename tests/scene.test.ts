@@ -0,0 +1,98 @@
+/**
+ * Scene Manager Tests
+ * Tests for the scene stack, lifecycle hooks, overlays, and transitions
+ */
+
+import { SceneManager, Scene } from '../src/game/core/scene';
+
+function createScene(name: string, log: string[], transparent = false): Scene {
+  return {
+    name,
+    transparent,
+    enter: () => log.push(`${name}:enter`),
+    exit: () => log.push(`${name}:exit`),
+    pause: () => log.push(`${name}:pause`),
+    resume: () => log.push(`${name}:resume`),
+    update: () => log.push(`${name}:update`),
+    render: () => log.push(`${name}:render`),
+  };
+}
+
+function createContext(): CanvasRenderingContext2D {
+  return ({
+    save: () => {},
+    restore: () => {},
+    fillRect: () => {},
+  } as unknown) as CanvasRenderingContext2D;
+}
+
+describe('SceneManager', () => {
+  let log: string[];
+  let manager: SceneManager;
+
+  beforeEach(() => {
+    log = [];
+    manager = new SceneManager();
+  });
+
+  test('should run lifecycle hooks on push and pop', () => {
+    manager.push(createScene('game', log));
+    manager.push(createScene('pause', log));
+    manager.pop();
+
+    expect(log).toEqual([
+      'game:enter',
+      'game:pause',
+      'pause:enter',
+      'pause:exit',
+      'game:resume',
+    ]);
+    expect(manager.current?.name).toBe('game');
+  });
+
+  test('should only update the top scene', () => {
+    manager.push(createScene('game', log));
+    manager.push(createScene('pause', log, true));
+    log.length = 0;
+
+    manager.update(1 / 60);
+    expect(log).toEqual(['pause:update']);
+  });
+
+  test('should render scenes beneath transparent overlays', () => {
+    manager.push(createScene('title', log));
+    manager.push(createScene('game', log));
+    manager.push(createScene('pause', log, true));
+    log.length = 0;
+
+    manager.render(createContext(), 1);
+    expect(log).toEqual(['game:render', 'pause:render']);
+  });
+
+  test('should exit every scene on reset', () => {
+    manager.push(createScene('game', log));
+    manager.push(createScene('result', log, true));
+    log.length = 0;
+
+    manager.reset(createScene('title', log));
+    expect(log).toEqual(['result:exit', 'game:exit', 'title:enter']);
+    expect(manager.getScenes()).toHaveLength(1);
+  });
+
+  test('should swap scenes halfway through a fade transition', () => {
+    manager.push(createScene('title', log));
+    manager.replace(createScene('game', log), { type: 'fade', duration: 200 });
+
+    expect(manager.isTransitioning()).toBe(true);
+    expect(manager.current?.name).toBe('title');
+
+    manager.update(0.05);
+    expect(manager.current?.name).toBe('title');
+
+    manager.update(0.06);
+    expect(manager.current?.name).toBe('game');
+
+    manager.update(0.1);
+    expect(manager.isTransitioning()).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { Entity, EntityFactory, EntityManager } from '../src/game/core/entity';
+import { config } from '../src/game/config';
+import {
+  SCHEMA_VERSION,
+  WorldSnapshot,
+  exportWorld,
+  importWorld,
+  registerMigration,
+  restoreWorld,
+  serializeEntity,
+} from '../src/game/core/serialize';
+
+const fakeImage = { src: 'player.svg' };
+
+jest.mock('../src/game/core/assets', () => ({
+  getSprite: (name: string) => (name === 'player' ? fakeImage : undefined),
+}));
+
+describe('Serialization', () => {
+  test('round-trips a world through JSON', () => {
+    const manager = new EntityManager();
+    const player = EntityFactory.createPlayer(10, 20);
+    player.getComponent('health')!.current = 42;
+    manager.add(player);
+    manager.add(EntityFactory.createEnemy(100, 50));
+
+    const restored = importWorld(exportWorld(manager));
+
+    expect(restored.getAll()).toHaveLength(2);
+    const copy = restored.get('player')!;
+    expect(copy).not.toBe(player);
+    expect(copy.getComponent('transform')!.position).toEqual({ x: 10, y: 20 });
+    expect(copy.getComponent('health')!.current).toBe(42);
+    // tag index is rebuilt
+    expect(restored.countByTag('enemy')).toBe(1);
+  });
+
+  test('skips function fields and re-binds images by sprite name', () => {
+    const entity = EntityFactory.createPlayer(0, 0);
+    entity.getComponent('health')!.onDeath = () => {};
+    entity.getComponent('collider')!.onCollision = () => {};
+    // the player prefab names its sprite, so the factory bound the image
+    expect(entity.getComponent('sprite')!.image).toBe(fakeImage);
+
+    const snapshot = serializeEntity(entity);
+    const json = JSON.stringify(snapshot);
+    expect(json).not.toContain('onDeath');
+    expect(json).not.toContain('onCollision');
+    expect(json).not.toContain('image');
+
+    const manager = restoreWorld({ version: SCHEMA_VERSION, entities: [snapshot] });
+    expect(manager.get('player')!.getComponent('sprite')!.image).toBe(fakeImage);
+  });
+
+  test('migrates older snapshots', () => {
+    // a hypothetical version 0 stored health as a bare number
+    registerMigration(0, snapshot => ({
+      ...snapshot,
+      entities: snapshot.entities.map(entity => ({
+        ...entity,
+        components: entity.components.map(c =>
+          c.type === 'health' ? { type: 'health', current: c.value, max: c.value } : c
+        ),
+      })),
+    }));
+
+    const old: WorldSnapshot = {
+      version: 0,
+      entities: [{ id: 'e1', active: true, components: [{ type: 'health', value: 30 }] }],
+    };
+    const manager = restoreWorld(old);
+
+    expect(manager.get('e1')!.getComponent('health')).toEqual({ type: 'health', current: 30, max: 30 });
+  });
+
+  test('turns version 1 per-tick friction into damping', () => {
+    const old: WorldSnapshot = {
+      version: 1,
+      entities: [{ id: 'e1', active: true, components: [{ type: 'physics', mass: 1, friction: 0.8 }] }],
+    };
+    const physics = restoreWorld(old).get('e1')!.getComponent('physics')!;
+
+    expect(physics.friction).toBe(config.physics.friction);
+    // the same drag per tick at the configured tick rate
+    expect(Math.exp(-physics.damping / config.loop.tickRate)).toBeCloseTo(0.8);
+  });
+
+  test('rejects snapshots from a newer schema', () => {
+    expect(() => restoreWorld({ version: SCHEMA_VERSION + 1, entities: [] })).toThrow(/newer/);
+    expect(() => importWorld('{"entities": 3}')).toThrow('Invalid world snapshot');
+  });
+
+  test('restores into an existing manager, replacing its entities', () => {
+    const manager = new EntityManager();
+    manager.add(new Entity('stale'));
+
+    restoreWorld({ version: SCHEMA_VERSION, entities: [{ id: 'fresh', active: false, components: [] }] }, manager);
+
+    expect(manager.get('stale')).toBeUndefined();
+    expect(manager.get('fresh')?.active).toBe(false);
+  });
+});
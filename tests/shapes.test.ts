@@ -0,0 +1,120 @@
+/**
+ * Collider Shape Tests
+ * Tests for shape overlap, minimum translation and transform handling
+ */
+
+import { collideShapes, getLocalShape, getShapeBounds, getWorldShape, WorldShape } from '../src/game/core/shapes';
+import { PhysicsSystem } from '../src/game/core/physics';
+import { Entity, ColliderComponent, ColliderShape, PhysicsComponent, TransformComponent } from '../src/game/core/entity';
+
+function box(x: number, y: number, width: number, height: number): WorldShape {
+  return { points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }], radius: 0 };
+}
+
+function circle(x: number, y: number, radius: number): WorldShape {
+  return { points: [{ x, y }], radius };
+}
+
+function body(x: number, y: number, shape?: ColliderShape, rotation = 0, scale = 1): Entity {
+  const entity = new Entity();
+  entity.addComponent({ type: 'transform', position: { x, y }, rotation, scale: { x: scale, y: scale } } as TransformComponent);
+  entity.addComponent({ type: 'collider', width: 10, height: 10, isTrigger: false, shape } as ColliderComponent);
+  return entity;
+}
+
+describe('collideShapes', () => {
+  test('boxes separate along the axis of least overlap', () => {
+    const contact = collideShapes(box(0, 0, 10, 10), box(8, 1, 10, 10))!;
+    expect(contact.normal.x).toBeCloseTo(1);
+    expect(contact.normal.y).toBeCloseTo(0);
+    expect(contact.depth).toBeCloseTo(2);
+
+    expect(collideShapes(box(0, 0, 10, 10), box(10, 0, 10, 10))).toBeNull();
+  });
+
+  test('circles push apart along the line between centers', () => {
+    const contact = collideShapes(circle(0, 0, 5), circle(6, 8, 6))!;
+    expect(contact.normal.x).toBeCloseTo(0.6);
+    expect(contact.normal.y).toBeCloseTo(0.8);
+    expect(contact.depth).toBeCloseTo(1);
+    expect(contact.point.x).toBeCloseTo(6 - 0.6 * 6);
+
+    expect(collideShapes(circle(0, 0, 5), circle(8, 8, 5))).toBeNull();
+  });
+
+  test('circles near a box corner are tested against the corner', () => {
+    // inside the boxes' bounds overlap but clear of the corner
+    expect(collideShapes(box(0, 0, 10, 10), circle(13, 13, 4))).toBeNull();
+    expect(collideShapes(box(0, 0, 10, 10), circle(12, 12, 4))).not.toBeNull();
+  });
+
+  test('capsules collide along their length', () => {
+    const capsule: WorldShape = { points: [{ x: 0, y: 0 }, { x: 0, y: 20 }], radius: 2 };
+    const contact = collideShapes(capsule, circle(3, 10, 2))!;
+    expect(contact.normal.x).toBeCloseTo(1);
+    expect(contact.depth).toBeCloseTo(1);
+    expect(collideShapes(capsule, circle(3, 25, 2))).toBeNull();
+  });
+});
+
+describe('Collider shapes on entities', () => {
+  test('default shapes fit the collider box', () => {
+    const collider: ColliderComponent = { type: 'collider', width: 10, height: 30, isTrigger: false };
+    expect(getLocalShape({ ...collider, shape: { kind: 'circle' } })).toEqual({ points: [{ x: 5, y: 15 }], radius: 5 });
+    expect(getLocalShape({ ...collider, shape: { kind: 'capsule' } })).toEqual({
+      points: [{ x: 5, y: 5 }, { x: 5, y: 25 }],
+      radius: 5,
+    });
+  });
+
+  test('polygons must be convex when the collider is added', () => {
+    const collider: ColliderComponent = { type: 'collider', width: 10, height: 10, isTrigger: false };
+    const add = (shape: ColliderShape) => () => new Entity().addComponent({ ...collider, shape } as ColliderComponent);
+    expect(add({ kind: 'polygon', points: [] })).toThrow('at least 3');
+    // an arrowhead, and a bow tie that crosses itself
+    const arrow = [{ x: 0, y: 0 }, { x: 10, y: 5 }, { x: 0, y: 10 }, { x: 4, y: 5 }];
+    const bowTie = [{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }];
+    for (const points of [arrow, bowTie]) {
+      expect(add({ kind: 'polygon', points })).toThrow('must be convex');
+    }
+    const square = [{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+    expect(add({ kind: 'polygon', points: [...square].reverse() })).not.toThrow();
+  });
+
+  test('rotation and scale apply to the world shape', () => {
+    const rotated = getShapeBounds(getWorldShape(body(0, 0, undefined, Math.PI / 4))!);
+    expect(rotated.width).toBeCloseTo(10 * Math.SQRT2);
+
+    const scaled = getWorldShape(body(0, 0, { kind: 'circle' }, 0, 2))!;
+    expect(scaled).toEqual({ points: [{ x: 10, y: 10 }], radius: 10 });
+  });
+
+  test('a rotated box misses what its unrotated bounds would hit', () => {
+    // diamond centered on its origin corner
+    const diamond = body(0, 0, { kind: 'polygon', points: [{ x: 0, y: -5 }, { x: 5, y: 0 }, { x: 0, y: 5 }, { x: -5, y: 0 }] });
+    const nearCorner = body(3, 3, { kind: 'box' });
+    nearCorner.getComponent('collider')!.width = 1;
+    nearCorner.getComponent('collider')!.height = 1;
+
+    expect(PhysicsSystem.isColliding(diamond, nearCorner)).toBe(false);
+    nearCorner.getComponent('transform')!.position = { x: 2, y: 2 };
+    expect(PhysicsSystem.isColliding(diamond, nearCorner)).toBe(true);
+  });
+
+  test('resolving a collision separates shapes along the contact normal', () => {
+    const a = body(0, 0, { kind: 'circle' });
+    const b = body(6, 8, { kind: 'circle' });
+    // exactly touching isn't overlapping
+    expect(PhysicsSystem.getContact(a, b)).toBeNull();
+
+    b.getComponent('transform')!.position = { x: 3, y: 4 };
+    for (const entity of [a, b]) {
+      entity.addComponent({
+        type: 'physics', velocity: { x: 0, y: 0 }, acceleration: { x: 0, y: 0 }, mass: 1, friction: 0, damping: 0,
+      } as PhysicsComponent);
+    }
+    PhysicsSystem.resolveCollision(a, b);
+    expect(PhysicsSystem.isColliding(a, b)).toBe(false);
+    expect(a.getComponent('transform')!.position.x).toBeCloseTo(-1.5);
+  });
+});
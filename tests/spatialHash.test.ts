@@ -0,0 +1,141 @@
+/**
+ * Broadphase Tests
+ * Tests for the spatial hash and PhysicsSystem's use of it
+ */
+
+import { SpatialHash, forEachCellOnRay } from '../src/game/core/spatialHash';
+import { PhysicsSystem } from '../src/game/core/physics';
+import { Entity, EntityFactory, EntityManager, ColliderComponent, TransformComponent } from '../src/game/core/entity';
+import { EventBus } from '../src/game/core/events';
+
+describe('SpatialHash', () => {
+  let hash: SpatialHash<string>;
+
+  beforeEach(() => {
+    hash = new SpatialHash(10);
+  });
+
+  test('finds items overlapping a region', () => {
+    hash.update('a', { x: 0, y: 0, width: 5, height: 5 });
+    hash.update('b', { x: 8, y: 8, width: 5, height: 5 });
+    hash.update('far', { x: 100, y: 100, width: 5, height: 5 });
+
+    expect(hash.queryAABB({ x: 4, y: 4, width: 5, height: 5 })).toEqual(['a', 'b']);
+    expect(hash.queryAABB({ x: 20, y: 20, width: 5, height: 5 })).toEqual([]);
+  });
+
+  test('finds items touching a circle', () => {
+    hash.update('near', { x: 9, y: 0, width: 5, height: 5 });
+    hash.update('corner', { x: 8, y: 8, width: 5, height: 5 });
+
+    // the corner box is inside the circle's bounds but not the circle
+    expect(hash.queryCircle({ x: 0, y: 0 }, 10)).toEqual(['near']);
+  });
+
+  test('moves and removes items', () => {
+    hash.update('a', { x: 0, y: 0, width: 5, height: 5 });
+    hash.update('a', { x: 50, y: 50, width: 5, height: 5 });
+    expect(hash.queryAABB({ x: 0, y: 0, width: 10, height: 10 })).toEqual([]);
+    expect(hash.queryAABB({ x: 50, y: 50, width: 1, height: 1 })).toEqual(['a']);
+
+    hash.remove('a');
+    expect(hash.size).toBe(0);
+    expect(hash.queryAABB({ x: 50, y: 50, width: 1, height: 1 })).toEqual([]);
+  });
+
+  test('visits each overlapping pair once, including items spanning cells', () => {
+    hash.update('big', { x: 0, y: 0, width: 35, height: 35 });
+    hash.update('a', { x: 30, y: 30, width: 2, height: 2 });
+    hash.update('b', { x: 31, y: 31, width: 2, height: 2 });
+    hash.update('alone', { x: 60, y: 60, width: 2, height: 2 });
+
+    const pairs: string[] = [];
+    hash.forEachPair((a, b) => pairs.push(`${a}-${b}`));
+    expect(pairs).toEqual(['big-a', 'big-b', 'a-b']);
+  });
+
+  test('rays only visit the cells they cross', () => {
+    const cells: string[] = [];
+    forEachCellOnRay({ x: 5, y: 5 }, { x: 30, y: 12 }, 10, (x, y) => {
+      cells.push(`${x},${y}`);
+    });
+    expect(cells).toEqual(['0,0', '1,0', '1,1', '2,1', '3,1']);
+
+    let visited = 0;
+    forEachCellOnRay({ x: 5, y: 5 }, { x: 10000, y: 5000 }, 10, () => {
+      visited++;
+    });
+    expect(visited).toBeLessThanOrEqual(1000 + 500 + 1);
+    expect(() => forEachCellOnRay({ x: 0, y: 0 }, { x: Infinity, y: 0 }, 10, () => {})).toThrow('finite');
+
+    hash.update('on', { x: 24, y: 12, width: 2, height: 2 });
+    hash.update('off', { x: 5, y: 25, width: 2, height: 2 });
+    expect(hash.queryRay({ x: 5, y: 5 }, { x: 30, y: 12 })).toEqual(['on']);
+  });
+
+  test('answers huge and unbounded regions without walking their cells', () => {
+    hash.update('a', { x: 0, y: 0, width: 5, height: 5 });
+    hash.update('b', { x: 300, y: -200, width: 5, height: 5 });
+
+    // trillions of cells: only finishes if they aren't walked one by one
+    expect(hash.queryAABB({ x: -1e12, y: -1e12, width: 2e12, height: 2e12 })).toEqual(['a', 'b']);
+    expect(hash.queryCircle({ x: 0, y: 0 }, Infinity)).toEqual(['a', 'b']);
+    expect(hash.queryCircle({ x: 0, y: 0 }, 1e9, 0)).toEqual([]);
+  });
+
+  test('rejects a non-positive cell size', () => {
+    expect(() => new SpatialHash(0)).toThrow('cell size');
+  });
+});
+
+describe('PhysicsSystem broadphase', () => {
+  let manager: EntityManager;
+
+  beforeEach(() => {
+    manager = new EntityManager();
+  });
+
+  test('tracks entities as they are added, moved and removed', () => {
+    const flame = EntityFactory.createEnemy(100, 100);
+    manager.add(flame);
+    expect(PhysicsSystem.queryCircle(manager, { x: 100, y: 100 }, 5)).toEqual([flame]);
+
+    flame.getComponent('physics')!.velocity.x = 120;
+    flame.getComponent('physics')!.damping = 0;
+    PhysicsSystem.update(manager.getAll(), 1);
+    expect(PhysicsSystem.queryCircle(manager, { x: 100, y: 100 }, 5)).toEqual([]);
+    expect(PhysicsSystem.queryAABB(manager, PhysicsSystem.getAABB(flame)!)).toEqual([flame]);
+
+    flame.removeComponent('collider');
+    expect(PhysicsSystem.getBroadphase(manager).has(flame)).toBe(false);
+    flame.addComponent({ type: 'collider', width: 4, height: 4, isTrigger: true } as ColliderComponent);
+    expect(PhysicsSystem.getBroadphase(manager).has(flame)).toBe(true);
+
+    manager.remove(flame.id);
+    expect(PhysicsSystem.getBroadphase(manager).size).toBe(0);
+  });
+
+  test('skips inactive entities', () => {
+    const pickup = EntityFactory.createPickup(0, 0);
+    manager.add(pickup);
+    pickup.active = false;
+    expect(PhysicsSystem.queryAABB(manager, { x: 0, y: 0, width: 50, height: 50 })).toEqual([]);
+  });
+
+  test('checkCollisions only reports overlapping pairs', () => {
+    const events = new EventBus();
+    const collisions: string[] = [];
+    events.on('collision', ({ a, b }) => collisions.push(`${a.id}-${b.id}`));
+
+    const positions: Array<[string, number]> = [['a', 0], ['b', 10], ['c', 500]];
+    for (const [id, x] of positions) {
+      const entity = new Entity(id);
+      entity.addComponent({ type: 'transform', position: { x, y: 0 }, rotation: 0, scale: { x: 1, y: 1 } } as TransformComponent);
+      entity.addComponent({ type: 'collider', width: 20, height: 20, isTrigger: true } as ColliderComponent);
+      manager.add(entity);
+    }
+
+    PhysicsSystem.checkCollisions(manager, events);
+    expect(collisions).toEqual(['a-b']);
+  });
+});
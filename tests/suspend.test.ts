@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Suspend Tests
+ * Engine pause/resume when the page is hidden
+ */
+
+import GameEngine from '../src/game/engine';
+import { AudioAdapter } from '../src/game/core/audio';
+import { MainScene } from '../src/game/scenes/mainScene';
+import { PauseScene } from '../src/game/scenes/pauseScene';
+
+function fakeAudio() {
+  const calls: string[] = [];
+  let position: number | undefined;
+  const audio: AudioAdapter = {
+    loadBackgroundMusic: async () => 0,
+    playBackgroundMusic: () => calls.push('play'),
+    stopBackgroundMusic: () => calls.push('stop'),
+    pauseBackgroundMusic: () => calls.push('pauseMusic'),
+    resumeBackgroundMusic: (at?: number) => {
+      position = at;
+      calls.push('resumeMusic');
+    },
+    updateMusicQuality: () => {},
+    suspend: () => calls.push('suspend'),
+    resume: () => calls.push('resume'),
+  };
+  return { audio, calls, position: () => position };
+}
+
+function startRun() {
+  const fake = fakeAudio();
+  const engine = new GameEngine({ headless: true, audio: fake.audio });
+  const scene = new MainScene(engine.context, { musicDuration: 60, musicFileName: 'test.mp3', seed: 1 });
+  engine.context.scenes.reset(scene);
+  return { engine, scene, ...fake };
+}
+
+describe('Engine suspend/resume', () => {
+  test('freezes the simulation and game timer while suspended', () => {
+    const { engine, scene } = startRun();
+    engine.step(30);
+    const timer = scene.getState().gameTimer;
+
+    engine.suspend();
+    engine.step(30);
+
+    expect(engine.getState()).toMatchObject({ tick: 30, suspended: true });
+    expect(scene.getState().gameTimer).toBe(timer);
+
+    engine.resume();
+    engine.step(30);
+    expect(engine.getState().tick).toBe(60);
+    expect(scene.getState().gameTimer).toBeGreaterThan(timer);
+  });
+
+  test('pauses music and resumes it at the game timer', () => {
+    const { engine, scene, calls, position } = startRun();
+    engine.step(90);
+
+    engine.suspend();
+    expect(calls).toEqual(expect.arrayContaining(['pauseMusic', 'suspend']));
+
+    engine.resume();
+    expect(calls.slice(-2)).toEqual(['resume', 'resumeMusic']);
+    expect(position()).toBeCloseTo(scene.getState().gameTimer);
+  });
+
+  test('resuming leaves a manually paused game paused', () => {
+    const { engine, calls } = startRun();
+    engine.step(5);
+    engine.context.scenes.push(new PauseScene(engine.context));
+
+    engine.suspend();
+    engine.resume();
+
+    expect(engine.getState().scenes).toEqual(['main', 'pause']);
+    expect(calls.filter(c => c === 'resumeMusic')).toHaveLength(0);
+
+    engine.context.scenes.pop();
+    expect(calls[calls.length - 1]).toBe('resumeMusic');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Continuous Collision Tests
+ * Tests for swept shapes and bullets that must not tunnel
+ */
+
+import { rayBox, sweepAABB, sweepCircle, sweepCircleCircle } from '../src/game/core/sweep';
+import { PhysicsSystem } from '../src/game/core/physics';
+import { Tilemap } from '../src/game/core/tilemap';
+import { Entity, EntityFactory, EntityManager } from '../src/game/core/entity';
+
+const wall = { x: 100, y: 0, width: 10, height: 100 };
+
+describe('Swept shapes', () => {
+  test('finds when a moving box first touches another', () => {
+    const hit = sweepAABB({ x: 0, y: 10, width: 20, height: 20 }, { x: 200, y: 0 }, wall)!;
+    expect(hit.time).toBeCloseTo(80 / 200);
+    expect(hit.normal).toEqual({ x: -1, y: 0 });
+
+    expect(sweepAABB({ x: 0, y: 10, width: 20, height: 20 }, { x: 50, y: 0 }, wall)).toBeNull();
+    expect(sweepAABB({ x: 0, y: 200, width: 20, height: 20 }, { x: 200, y: 0 }, wall)).toBeNull();
+  });
+
+  test('ignores boxes that start overlapping', () => {
+    expect(rayBox({ x: 105, y: 50 }, { x: 10, y: 0 }, wall)).toBeNull();
+  });
+
+  test('rounds the corners for circles', () => {
+    const box = { x: 0, y: 0, width: 10, height: 10 };
+    // clips the corner of the box grown by the radius, but not the rounded corner
+    expect(sweepCircle({ x: -10, y: 9 }, 5, { x: 10, y: 10 }, box)).toBeNull();
+    // grazes the rounded corner after entering the grown box's square corner
+    const corner = sweepCircle({ x: -20, y: 14.9 }, 5, { x: 40, y: 0 }, box)!;
+    expect(corner.time * 40 - 20).toBeCloseTo(-Math.sqrt(25 - 4.9 * 4.9));
+
+    const hit = sweepCircle({ x: -10, y: 5 }, 5, { x: 20, y: 0 }, box)!;
+    expect(hit.time).toBeCloseTo(0.25);
+    expect(hit.normal).toEqual({ x: -1, y: 0 });
+  });
+
+  test('sweeps circles against circles', () => {
+    const hit = sweepCircleCircle({ x: 0, y: 0 }, 2, { x: 20, y: 0 }, { x: 10, y: 0 }, 3)!;
+    expect(hit.time).toBeCloseTo(0.25);
+    expect(hit.normal.x).toBeCloseTo(-1);
+  });
+});
+
+describe('Bullets', () => {
+  const map = Tilemap.fromJSON({
+    tileSize: 10,
+    tiles: { '.': { solid: false }, '#': { solid: true } },
+    rows: ['..........#.........'],
+  });
+
+  function fire(entity: Entity, velocity: number): void {
+    const physics = entity.getComponent('physics')!;
+    physics.damping = 0;
+    physics.velocity = { x: velocity, y: 0 };
+  }
+
+  test('stop at thin walls that fast movers would skip', () => {
+    const tunneler = EntityFactory.create('flame', 0, 0, { collider: { width: 4, height: 4, shape: { kind: 'box' } } });
+    const bullet = EntityFactory.create('flame', 0, 0, { collider: { width: 4, height: 4, shape: { kind: 'box' } } });
+    fire(tunneler, 500);
+    fire(bullet, 500);
+    bullet.getComponent('physics')!.bullet = true;
+
+    PhysicsSystem.update([tunneler, bullet], 0.3, map);
+
+    expect(tunneler.getComponent('transform')!.position.x).toBeCloseTo(150);
+    expect(bullet.getComponent('transform')!.position.x).toBeCloseTo(96, 1);
+    expect(bullet.getComponent('physics')!.velocity.x).toBe(0);
+  });
+
+  test('slide along walls for the rest of the move', () => {
+    const bullet = EntityFactory.create('flame', 0, 0, { collider: { width: 4, height: 4, shape: { kind: 'box' } } });
+    fire(bullet, 300);
+    bullet.getComponent('physics')!.velocity.y = 100;
+    bullet.getComponent('physics')!.bullet = true;
+
+    const tall = Tilemap.fromJSON({
+      tileSize: 10,
+      tiles: { '.': { solid: false }, '#': { solid: true } },
+      rows: Array(20).fill('..........#.........'),
+    });
+    PhysicsSystem.update([bullet], 0.5, tall);
+
+    const position = bullet.getComponent('transform')!.position;
+    expect(position.x).toBeCloseTo(96, 1);
+    expect(position.y).toBeCloseTo(50);
+  });
+
+  test('stop just inside colliders in their path', () => {
+    const manager = new EntityManager();
+    const bullet = EntityFactory.create('flame', 0, 100, { collider: { layer: 'projectile' } });
+    const target = EntityFactory.createEnemy(300, 100);
+    manager.add(bullet);
+    manager.add(target);
+    fire(bullet, 500);
+    bullet.getComponent('physics')!.bullet = true;
+
+    PhysicsSystem.update([bullet], 1);
+
+    expect(bullet.getComponent('transform')!.position.x).toBeLessThan(300);
+    expect(PhysicsSystem.isColliding(bullet, target)).toBe(true);
+    expect(PhysicsSystem.sweep(bullet, { x: 100, y: 0 })).toBeNull();
+  });
+});
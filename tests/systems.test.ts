@@ -0,0 +1,89 @@
+/**
+ * System Pipeline Tests
+ * Tests for system ordering, toggling, and plugins
+ */
+
+import { SystemRegistry, World, Plugin } from '../src/game/core/systems';
+import { EntityManager } from '../src/game/core/entity';
+import { CommandBuffer } from '../src/game/core/commands';
+import GameEngine from '../src/game/engine';
+import { MainScene } from '../src/game/scenes/mainScene';
+
+describe('SystemRegistry', () => {
+  let registry: SystemRegistry;
+  let log: string[];
+  const entities = new EntityManager();
+  const world = { entities, commands: new CommandBuffer(entities) } as World;
+
+  beforeEach(() => {
+    registry = new SystemRegistry();
+    log = [];
+  });
+
+  function track(name: string) {
+    return () => log.push(name);
+  }
+
+  test('should run systems by phase, then priority', () => {
+    registry
+      .register({ name: 'ai', phase: 'ai', update: track('ai') })
+      .register({ name: 'physics', phase: 'physics', update: track('physics') })
+      .register({ name: 'late-input', phase: 'input', priority: 10, update: track('late-input') })
+      .register({ name: 'input', phase: 'input', update: track('input') });
+
+    registry.update(1 / 60, world);
+    expect(log).toEqual(['input', 'late-input', 'physics', 'ai']);
+  });
+
+  test('should skip disabled systems', () => {
+    registry
+      .register({ name: 'a', phase: 'update', update: track('a') })
+      .register({ name: 'b', phase: 'update', update: track('b') });
+
+    registry.setEnabled('a', false);
+    registry.update(1 / 60, world);
+
+    expect(log).toEqual(['b']);
+    expect(registry.isEnabled('a')).toBe(false);
+  });
+
+  test('should reorder systems', () => {
+    registry
+      .register({ name: 'a', phase: 'update', update: track('a') })
+      .register({ name: 'b', phase: 'update', update: track('b') });
+
+    registry.reorder('b', -1);
+    registry.update(1 / 60, world);
+    expect(log).toEqual(['b', 'a']);
+
+    log.length = 0;
+    registry.reorder('a', 0, 'input');
+    registry.update(1 / 60, world);
+    expect(log).toEqual(['a', 'b']);
+  });
+
+  test('should reject duplicate names', () => {
+    registry.register({ name: 'a', phase: 'update' });
+    expect(() => registry.register({ name: 'a', phase: 'ai' })).toThrow('already registered');
+  });
+});
+
+describe('Plugins', () => {
+  test('should be installed into new gameplay scenes', () => {
+    let ticks = 0;
+    const counter: Plugin = {
+      name: 'tickCounter',
+      install: (systems) => {
+        systems.register({ name: 'tickCounter', phase: 'postUpdate', update: () => ticks++ });
+      },
+    };
+
+    const engine = new GameEngine({ headless: true }).use(counter);
+    const scene = new MainScene(engine.context, { musicDuration: 60, musicFileName: 'test.mp3', seed: 1 });
+    engine.context.scenes.reset(scene);
+    engine.step(5);
+
+    expect(scene.systems.get('tickCounter')).toBeDefined();
+    expect(ticks).toBe(5);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tilemap Tests
+ * Tests for tile grids, JSON loading and tile collisions
+ */
+
+import { Tilemap } from '../src/game/core/tilemap';
+import { PhysicsSystem } from '../src/game/core/physics';
+import { EntityFactory } from '../src/game/core/entity';
+import { config } from '../src/game/config';
+import roomData from '../src/game/data/rooms.json';
+
+const tiles = {
+  '.': { solid: false },
+  '#': { solid: true, color: '#555555' },
+};
+
+describe('Tilemap', () => {
+  test('loads a grid of tiles from JSON', () => {
+    const map = Tilemap.fromJSON({ tileSize: 10, tiles, rows: ['..#', '#..'] });
+
+    expect(map.columns).toBe(3);
+    expect(map.rows).toBe(2);
+    expect(map.width).toBe(30);
+    expect(map.isSolid(2, 0)).toBe(true);
+    expect(map.isSolid(1, 0)).toBe(false);
+    expect(map.isSolid(-1, 0)).toBe(false);
+    expect(map.getTile(0, 1)).toEqual(tiles['#']);
+  });
+
+  test('reports every problem with invalid data', () => {
+    expect(() => Tilemap.fromJSON({ tileSize: 10, tiles, rows: ['..', '.x.'] }))
+      .toThrow(/row 1 is 3 tiles wide, expected 2\n {2}row 1: unknown tile "x"/);
+    expect(() => Tilemap.fromJSON({ tileSize: 0, tiles: { '.': {} }, rows: [] }))
+      .toThrow(/tileSize[\s\S]*tiles must map[\s\S]*rows must be/);
+  });
+
+  test('finds the solid tiles a box overlaps', () => {
+    const map = Tilemap.fromJSON({ tileSize: 10, tiles, rows: ['.#', '##'] });
+
+    expect(map.getSolidTiles({ x: 0, y: 0, width: 10, height: 10 })).toEqual([]);
+    expect(map.getSolidTiles({ x: 5, y: 5, width: 10, height: 10 })).toHaveLength(3);
+
+    map.setTile(1, 0, -1);
+    expect(map.overlapsSolid({ x: 12, y: 2, width: 5, height: 5 })).toBe(false);
+    expect(() => map.setTile(5, 5, 0)).toThrow('outside');
+  });
+
+  test('stops entities at walls while they slide along them', () => {
+    const map = Tilemap.fromJSON({ tileSize: 40, tiles, rows: ['....', '..#.', '....'] });
+    const flame = EntityFactory.createEnemy(40, 40);
+    const physics = flame.getComponent('physics')!;
+    physics.damping = 0;
+    physics.velocity = { x: 100, y: 20 };
+
+    PhysicsSystem.update([flame], 0.2, map);
+
+    const position = flame.getComponent('transform')!.position;
+    expect(position.x).toBe(80 - config.enemy.size);
+    expect(position.y).toBeCloseTo(44);
+    expect(physics.velocity.x).toBe(0);
+    expect(physics.velocity.y).toBe(20);
+  });
+
+  test('finds the nearest open position for a box', () => {
+    const map = Tilemap.fromJSON({ tileSize: 10, tiles, rows: ['##..', '##..', '....'] });
+
+    expect(map.findOpenPosition({ x: 25, y: 1, width: 8, height: 8 })).toEqual({ x: 25, y: 1 });
+    expect(map.findOpenPosition({ x: 12, y: 2, width: 8, height: 8 })).toEqual({ x: 21, y: 1 });
+    // wider than the single open cell
+    const boxed = Tilemap.fromJSON({ tileSize: 10, tiles, rows: ['###', '#.#', '###'] });
+    expect(boxed.findOpenPosition({ x: 10, y: 10, width: 12, height: 12 })).toBeNull();
+  });
+
+  test('every room layout loads and keeps the player start clear', () => {
+    const size = config.player.size;
+    const start = {
+      x: config.canvas.width / 2 - size / 2,
+      y: config.canvas.height / 2 - size / 2,
+      width: size,
+      height: size,
+    };
+
+    for (const rows of roomData.rooms) {
+      const map = Tilemap.fromJSON({ tileSize: roomData.tileSize, tiles: roomData.tiles, rows });
+      expect(map.width).toBe(config.canvas.width);
+      expect(map.height).toBe(config.canvas.height);
+      expect(map.overlapsSolid(start)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Title Scene Tests
+ * Tests for the music uploader the title screen shows
+ */
+
+import GameEngine from '../src/game/engine';
+import { TitleScene } from '../src/game/scenes/titleScene';
+
+describe('TitleScene', () => {
+  test('shares one uploader across title screens', () => {
+    const engine = new GameEngine({ headless: true });
+    const context = { ...engine.context, headless: false };
+
+    for (let i = 0; i < 3; i++) {
+      const title = new TitleScene(context);
+      title.enter();
+      title.exit();
+    }
+
+    expect(document.querySelectorAll('input[type="file"]')).toHaveLength(1);
+  });
+});